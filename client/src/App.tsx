@@ -7,6 +7,7 @@ export function App() {
     <Router>
       <Route path="/" component={EditorPage} />
       <Route path="/view/:id" component={ViewPage} />
+      <Route path="/s/:token" component={ViewPage} />
     </Router>
   );
 }
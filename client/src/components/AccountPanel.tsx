@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  AccountResponse,
+  ApiTokenView,
+  RecoveryCodeResponse,
+  TokenScope,
+  UserTokenResponse,
+} from "../../../src/types";
+
+const SCOPES: TokenScope[] = ["documents:read", "documents:write", "documents:delete"];
+
+type AccountPanelProps = {
+  authToken: string;
+  activeDocumentId?: string | null;
+  onTokenChange: (token: string) => void;
+  onStatus: (status: string) => void;
+};
+
+function describeToken(token: ApiTokenView): string {
+  if (token.revokedAt) return `revoked ${new Date(token.revokedAt).toLocaleString()}`;
+  const parts = [`created ${new Date(token.createdAt).toLocaleString()}`];
+  if (token.rotatedAt) parts.push(`rotated ${new Date(token.rotatedAt).toLocaleString()}`);
+  if (token.expiresAt) {
+    const expired = Date.parse(token.expiresAt) <= Date.now();
+    parts.push(`${expired ? "expired" : "expires"} ${new Date(token.expiresAt).toLocaleString()}`);
+  }
+  return parts.join(" · ");
+}
+
+function describeAccess(token: ApiTokenView): string {
+  const scopes = token.scopes ? token.scopes.join(", ") : "full access";
+  return token.documentId ? `${scopes} · document ${token.documentId}` : scopes;
+}
+
+export default function AccountPanel({
+  authToken,
+  activeDocumentId,
+  onTokenChange,
+  onStatus,
+}: AccountPanelProps) {
+  const [account, setAccount] = useState<AccountResponse | null>(null);
+  const [tokenName, setTokenName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[] | null>(null);
+  const [limitToDocument, setLimitToDocument] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [secret, setSecret] = useState<{ label: string; value: string } | null>(null);
+
+  const refreshAccount = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account", { headers: { "x-user-token": authToken } });
+      if (!res.ok) throw new Error("account failed");
+      const data: AccountResponse = await res.json();
+      setAccount(data);
+    } catch (error) {
+      onStatus("Failed to load account");
+    }
+  }, [authToken, onStatus]);
+
+  useEffect(() => {
+    setSecret(null);
+    refreshAccount();
+  }, [refreshAccount]);
+
+  const handleCreate = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account/tokens", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: JSON.stringify({
+          name: tokenName.trim() || undefined,
+          scopes: scopes ?? undefined,
+          documentId: limitToDocument && activeDocumentId ? activeDocumentId : undefined,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+        }),
+      });
+      if (!res.ok) throw new Error("create failed");
+      const data: UserTokenResponse = await res.json();
+      setSecret({ label: `New token "${data.tokenInfo.name}"`, value: data.token });
+      setTokenName("");
+      setScopes(null);
+      setLimitToDocument(false);
+      setExpiresInDays("");
+      onStatus("Token created");
+      await refreshAccount();
+    } catch (error) {
+      onStatus("Failed to create token");
+    }
+  }, [activeDocumentId, authToken, expiresInDays, limitToDocument, onStatus, refreshAccount, scopes, tokenName]);
+
+  const toggleScope = useCallback((scope: TokenScope) => {
+    setScopes((prev) => {
+      const current = prev ?? [];
+      const next = current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope];
+      return next.length ? next : null;
+    });
+  }, []);
+
+  const handleRotate = useCallback(async (token: ApiTokenView) => {
+    try {
+      const res = await fetch(`/api/account/tokens/${token.id}/rotate`, {
+        method: "POST",
+        headers: { "x-user-token": authToken },
+      });
+      if (!res.ok) throw new Error("rotate failed");
+      const data: UserTokenResponse = await res.json();
+      if (token.id === account?.currentTokenId) {
+        // The old value stops working immediately, so switch this browser over.
+        onTokenChange(data.token);
+        onStatus("Token rotated and saved in this browser");
+        return;
+      }
+      setSecret({ label: `Rotated token "${data.tokenInfo.name}"`, value: data.token });
+      onStatus("Token rotated");
+      await refreshAccount();
+    } catch (error) {
+      onStatus("Failed to rotate token");
+    }
+  }, [account, authToken, onStatus, onTokenChange, refreshAccount]);
+
+  const handleRevoke = useCallback(async (token: ApiTokenView) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it will lose access.`)) return;
+    try {
+      const res = await fetch(`/api/account/tokens/${token.id}`, {
+        method: "DELETE",
+        headers: { "x-user-token": authToken },
+      });
+      if (!res.ok) throw new Error("revoke failed");
+      if (token.id === account?.currentTokenId) {
+        onTokenChange("");
+        onStatus("Token revoked and removed from this browser");
+        return;
+      }
+      onStatus("Token revoked");
+      await refreshAccount();
+    } catch (error) {
+      onStatus("Failed to revoke token");
+    }
+  }, [account, authToken, onStatus, onTokenChange, refreshAccount]);
+
+  const handleRecoveryCode = useCallback(async () => {
+    try {
+      const res = await fetch("/api/account/recovery-code", {
+        method: "POST",
+        headers: { "x-user-token": authToken },
+      });
+      if (!res.ok) throw new Error("recovery failed");
+      const data: RecoveryCodeResponse = await res.json();
+      setSecret({ label: "Recovery code", value: data.recoveryCode });
+      onStatus("New recovery code generated");
+      await refreshAccount();
+    } catch (error) {
+      onStatus("Failed to generate recovery code");
+    }
+  }, [authToken, onStatus, refreshAccount]);
+
+  if (!account) return null;
+
+  return (
+    <div className="account-panel shares">
+      <h2>Account</h2>
+      <span className="doc-meta">
+        User id <code>{account.id}</code> · share it so workspace admins can add you
+      </span>
+      {secret && (
+        <div className="generated-token-display">
+          <span>{secret.label} (shown once, store it safely):</span>
+          <code>{secret.value}</code>
+          <button
+            type="button"
+            onClick={async () => {
+              try {
+                await navigator.clipboard.writeText(secret.value);
+                onStatus("Copied to clipboard");
+              } catch (error) {
+                onStatus("Copy failed");
+              }
+            }}
+          >
+            Copy
+          </button>
+        </div>
+      )}
+      <div className="share-form">
+        <input value={tokenName} onChange={(e) => setTokenName(e.target.value)} placeholder="Token name" />
+        {SCOPES.map((scope) => (
+          <label key={scope}>
+            <input
+              type="checkbox"
+              checked={Boolean(scopes?.includes(scope))}
+              onChange={() => toggleScope(scope)}
+            />
+            {scope}
+          </label>
+        ))}
+        {activeDocumentId && (
+          <label>
+            <input
+              type="checkbox"
+              checked={limitToDocument}
+              onChange={(e) => setLimitToDocument(e.target.checked)}
+            />
+            Only this document
+          </label>
+        )}
+        <select value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)}>
+          <option value="">Never expires</option>
+          <option value="1">1 day</option>
+          <option value="7">7 days</option>
+          <option value="30">30 days</option>
+          <option value="90">90 days</option>
+          <option value="365">1 year</option>
+        </select>
+        <button type="button" onClick={handleCreate}>
+          New token
+        </button>
+        <button type="button" onClick={handleRecoveryCode}>
+          {account.hasRecoveryCode ? "Replace recovery code" : "Create recovery code"}
+        </button>
+      </div>
+      <ul className="share-list">
+        {account.tokens.map((token) => (
+          <li key={token.id} className={token.revokedAt ? "revoked" : ""}>
+            <span className="doc-title">
+              {token.name}
+              {token.legacy ? " · legacy" : ""}
+              {token.id === account.currentTokenId ? " · this browser" : ""}
+            </span>
+            <span className="doc-meta">{describeAccess(token)}</span>
+            <span className="doc-meta">{describeToken(token)}</span>
+            {!token.revokedAt && (
+              <>
+                <button type="button" onClick={() => handleRotate(token)}>
+                  Rotate
+                </button>
+                <button type="button" onClick={() => handleRevoke(token)}>
+                  Revoke
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  CreateShareResponse,
+  ShareAccess,
+  ShareListResponse,
+  ShareRecord,
+} from "../../../src/types";
+
+type SharesPanelProps = {
+  documentId: string;
+  authToken: string;
+  selectedVersionId: string | null;
+  /** Appended to share links, e.g. the `#key=` of an encrypted document. */
+  linkFragment?: string;
+  onStatus: (status: string) => void;
+};
+
+function describeShare(share: ShareRecord): string {
+  if (share.revoked) return "revoked";
+  if (share.expiresAt < Date.now()) return "expired";
+  if (share.maxViews && share.views >= share.maxViews) return "used up";
+  return `expires ${new Date(share.expiresAt).toLocaleString()}`;
+}
+
+export default function SharesPanel({
+  documentId,
+  authToken,
+  selectedVersionId,
+  linkFragment = "",
+  onStatus,
+}: SharesPanelProps) {
+  const [shares, setShares] = useState<ShareRecord[]>([]);
+  const [label, setLabel] = useState("");
+  const [expiresInMinutes, setExpiresInMinutes] = useState(60);
+  const [access, setAccess] = useState<ShareAccess>("raw");
+  const [pinVersion, setPinVersion] = useState(false);
+  const [maxViews, setMaxViews] = useState("");
+  const [lastLink, setLastLink] = useState<string | null>(null);
+
+  const refreshShares = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/documents/${documentId}/shares`, {
+        headers: { "x-user-token": authToken },
+      });
+      if (!res.ok) throw new Error("shares failed");
+      const data: ShareListResponse = await res.json();
+      setShares(data.shares);
+    } catch (error) {
+      onStatus("Failed to load shares");
+    }
+  }, [authToken, documentId, onStatus]);
+
+  useEffect(() => {
+    setLastLink(null);
+    refreshShares();
+  }, [refreshShares]);
+
+  const handleCreate = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/documents/${documentId}/share`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-user-token": authToken,
+        },
+        body: JSON.stringify({
+          label: label.trim() || undefined,
+          expiresInMinutes,
+          access,
+          versionId: pinVersion && selectedVersionId ? selectedVersionId : undefined,
+          maxViews: maxViews ? Number(maxViews) : undefined,
+        }),
+      });
+      if (!res.ok) throw new Error("share failed");
+      const data: CreateShareResponse = await res.json();
+      setLastLink(`${data.viewUrl}${linkFragment}`);
+      setLabel("");
+      setMaxViews("");
+      onStatus("Share link created");
+      await refreshShares();
+    } catch (error) {
+      onStatus("Failed to create share link");
+    }
+  }, [access, authToken, documentId, expiresInMinutes, label, linkFragment, maxViews, onStatus, pinVersion, refreshShares, selectedVersionId]);
+
+  const handleRevoke = useCallback(async (shareId: string) => {
+    try {
+      const res = await fetch(`/api/documents/${documentId}/shares/${shareId}`, {
+        method: "DELETE",
+        headers: { "x-user-token": authToken },
+      });
+      if (!res.ok) throw new Error("revoke failed");
+      onStatus("Share link revoked");
+      await refreshShares();
+    } catch (error) {
+      onStatus("Failed to revoke share link");
+    }
+  }, [authToken, documentId, onStatus, refreshShares]);
+
+  return (
+    <div className="shares">
+      <h2>Shares</h2>
+      <div className="share-form">
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label" />
+        <select value={access} onChange={(e) => setAccess(e.target.value as ShareAccess)}>
+          <option value="raw">Content</option>
+          <option value="metadata">Details only</option>
+        </select>
+        <select value={expiresInMinutes} onChange={(e) => setExpiresInMinutes(Number(e.target.value))}>
+          <option value={60}>1 hour</option>
+          <option value={60 * 24}>1 day</option>
+          <option value={60 * 24 * 7}>7 days</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={maxViews}
+          onChange={(e) => setMaxViews(e.target.value)}
+          placeholder="Max views"
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={pinVersion}
+            onChange={(e) => setPinVersion(e.target.checked)}
+            disabled={!selectedVersionId}
+          />
+          Pin selected version
+        </label>
+        <button type="button" onClick={handleCreate}>
+          Create link
+        </button>
+      </div>
+      {lastLink && (
+        <div className="links">
+          <a href={lastLink} target="_blank" rel="noreferrer">
+            Open share link
+          </a>
+          <button
+            type="button"
+            onClick={async () => {
+              try {
+                await navigator.clipboard.writeText(lastLink);
+                onStatus("Copied share link");
+              } catch (error) {
+                onStatus("Copy failed");
+              }
+            }}
+          >
+            Copy share link
+          </button>
+        </div>
+      )}
+      <ul className="share-list">
+        {shares.map((share) => (
+          <li key={share.id} className={share.revoked ? "revoked" : ""}>
+            <span className="doc-title">{share.label ?? share.id}</span>
+            <span className="doc-meta">
+              {share.access === "raw" ? "content" : "details"}
+              {share.versionId ? " · pinned" : " · latest"}
+              {` · ${share.views}${share.maxViews ? `/${share.maxViews}` : ""} views`}
+              {` · ${describeShare(share)}`}
+            </span>
+            {!share.revoked && (
+              <button type="button" onClick={() => handleRevoke(share.id)}>
+                Revoke
+              </button>
+            )}
+          </li>
+        ))}
+        {!shares.length && <li className="doc-meta">No share links yet.</li>}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from "react";
+import type { WorkspaceRecord, WorkspaceRole, WorkspaceSummary } from "../../../src/types";
+
+const ROLES: WorkspaceRole[] = ["viewer", "editor", "admin"];
+
+type WorkspacePanelProps = {
+  authToken: string;
+  currentUserId: string | null;
+  workspace: WorkspaceSummary | null;
+  onChange: (workspaceId?: string | null) => void;
+  onStatus: (status: string) => void;
+};
+
+export default function WorkspacePanel({
+  authToken,
+  currentUserId,
+  workspace,
+  onChange,
+  onStatus,
+}: WorkspacePanelProps) {
+  const [record, setRecord] = useState<WorkspaceRecord | null>(null);
+  const [name, setName] = useState("");
+  const [memberId, setMemberId] = useState("");
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>("editor");
+  const isAdmin = workspace?.role === "admin";
+
+  const refreshWorkspace = useCallback(async () => {
+    if (!workspace) {
+      setRecord(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}`, {
+        headers: { "x-user-token": authToken },
+      });
+      if (!res.ok) throw new Error("workspace failed");
+      const data: WorkspaceRecord = await res.json();
+      setRecord(data);
+    } catch (error) {
+      onStatus("Failed to load workspace");
+    }
+  }, [authToken, onStatus, workspace]);
+
+  useEffect(() => {
+    refreshWorkspace();
+  }, [refreshWorkspace]);
+
+  const handleCreate = useCallback(async () => {
+    if (!name.trim()) return;
+    try {
+      const res = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      if (!res.ok) throw new Error("create failed");
+      const data: WorkspaceRecord = await res.json();
+      setName("");
+      onStatus(`Workspace "${data.name}" created`);
+      onChange(data.id);
+    } catch (error) {
+      onStatus("Failed to create workspace");
+    }
+  }, [authToken, name, onChange, onStatus]);
+
+  const handleSetMember = useCallback(async (userId: string, role: WorkspaceRole) => {
+    if (!workspace || !userId.trim()) return;
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}/members/${encodeURIComponent(userId.trim())}`, {
+        method: "PUT",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: JSON.stringify({ role }),
+      });
+      if (res.status === 404) {
+        onStatus("User not found");
+        return;
+      }
+      if (res.status === 409) {
+        onStatus("A workspace needs at least one admin");
+        return;
+      }
+      if (!res.ok) throw new Error("member failed");
+      setRecord(await res.json());
+      setMemberId("");
+      onStatus("Member updated");
+    } catch (error) {
+      onStatus("Failed to update member");
+    }
+  }, [authToken, onStatus, workspace]);
+
+  const handleRemoveMember = useCallback(async (userId: string) => {
+    if (!workspace) return;
+    const leaving = userId === currentUserId;
+    if (!window.confirm(leaving ? `Leave "${workspace.name}"?` : "Remove this member?")) return;
+    try {
+      const res = await fetch(`/api/workspaces/${workspace.id}/members/${encodeURIComponent(userId)}`, {
+        method: "DELETE",
+        headers: { "x-user-token": authToken },
+      });
+      if (res.status === 409) {
+        onStatus("A workspace needs at least one admin");
+        return;
+      }
+      if (!res.ok) throw new Error("remove failed");
+      if (leaving) {
+        onStatus(`Left "${workspace.name}"`);
+        onChange(null);
+        return;
+      }
+      setRecord(await res.json());
+      onStatus("Member removed");
+    } catch (error) {
+      onStatus("Failed to remove member");
+    }
+  }, [authToken, currentUserId, onChange, onStatus, workspace]);
+
+  return (
+    <div className="account-panel shares">
+      <h2>Workspaces</h2>
+      <div className="share-form">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Workspace name" />
+        <button type="button" onClick={handleCreate}>
+          New workspace
+        </button>
+      </div>
+      {workspace && record && (
+        <>
+          <h3>
+            {record.name} · {workspace.role}
+          </h3>
+          {isAdmin && (
+            <div className="share-form">
+              <input value={memberId} onChange={(e) => setMemberId(e.target.value)} placeholder="User id" />
+              <select value={memberRole} onChange={(e) => setMemberRole(e.target.value as WorkspaceRole)}>
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={() => handleSetMember(memberId, memberRole)}>
+                Add member
+              </button>
+            </div>
+          )}
+          <ul className="share-list">
+            {record.members.map((member) => (
+              <li key={member.userId}>
+                <span className="doc-title">
+                  {member.userId}
+                  {member.userId === currentUserId ? " · you" : ""}
+                </span>
+                {isAdmin ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleSetMember(member.userId, e.target.value as WorkspaceRole)}
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="doc-meta">{member.role}</span>
+                )}
+                {(isAdmin || member.userId === currentUserId) && (
+                  <button type="button" onClick={() => handleRemoveMember(member.userId)}>
+                    {member.userId === currentUserId ? "Leave" : "Remove"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
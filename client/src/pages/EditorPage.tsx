@@ -1,10 +1,121 @@
 import { lazy, Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
 import { difference } from "../utils/diff";
-import type { DocumentListResponse, DocumentView, UserTokenResponse } from "../../../src/types";
+import { filesEqual, mergeFiles, toEditorFiles } from "../utils/files";
+import {
+  createDocumentKey,
+  decryptText,
+  decryptVersion,
+  encryptPayload,
+  keyFromFragment,
+  loadDocumentKey,
+  saveDocumentKey,
+  viewUrlWithKey,
+} from "../utils/crypto";
+import type { EditorFile } from "../utils/files";
+import AccountPanel from "../components/AccountPanel";
+import SharesPanel from "../components/SharesPanel";
+import WorkspacePanel from "../components/WorkspacePanel";
+import { isTextContentType } from "../../../src/mime";
+import type {
+  AccountResponse,
+  DocumentListResponse,
+  DocumentSort,
+  DocumentVersion,
+  DocumentView,
+  RetentionPolicy,
+  SearchResponse,
+  SearchResult,
+  SearchSnippet,
+  SortOrder,
+  UpdateConflictResponse,
+  UserTokenResponse,
+  VersionListResponse,
+  VersionMetadata,
+  Visibility,
+  WorkspaceListResponse,
+  WorkspaceSummary,
+} from "../../../src/types";
 
 const CodeEditor = lazy(() => import("../components/CodeEditor"));
 
 const defaultContent = "";
+const defaultFiles: EditorFile[] = [{ name: "", content: defaultContent }];
+
+const EXPIRY_OPTIONS: Array<{ label: string; seconds: number | null }> = [
+  { label: "Never expires", seconds: null },
+  { label: "Expires in 1 hour", seconds: 60 * 60 },
+  { label: "Expires in 1 day", seconds: 60 * 60 * 24 },
+  { label: "Expires in 1 week", seconds: 60 * 60 * 24 * 7 },
+  { label: "Expires in 30 days", seconds: 60 * 60 * 24 * 30 },
+];
+const BURN_AFTER_READS_OPTIONS = [1, 5, 10];
+const SEARCH_DEBOUNCE_MS = 250;
+const SORT_OPTIONS: Array<{ label: string; sort: DocumentSort }> = [
+  { label: "Last updated", sort: "updated" },
+  { label: "Created", sort: "created" },
+  { label: "Title", sort: "title" },
+  { label: "Size", sort: "size" },
+];
+
+const RETENTION_OPTIONS: Array<{ label: string; value: string; retention: RetentionPolicy | null }> = [
+  { label: "Server default", value: "default", retention: null },
+  { label: "Last 10 versions", value: "last-10", retention: { keepLast: 10 } },
+  { label: "Last 50 versions", value: "last-50", retention: { keepLast: 50 } },
+  { label: "Last 30 days", value: "days-30", retention: { keepDays: 30 } },
+  { label: "Last 90 days", value: "days-90", retention: { keepDays: 90 } },
+];
+
+function retentionValue(retention?: RetentionPolicy): string {
+  const match = RETENTION_OPTIONS.find(
+    (option) =>
+      option.retention?.keepLast === retention?.keepLast && option.retention?.keepDays === retention?.keepDays
+  );
+  return match?.value ?? "custom";
+}
+
+function defaultOrder(sort: DocumentSort): SortOrder {
+  return sort === "title" ? "asc" : "desc";
+}
+
+function parseTags(value: string): string[] {
+  return [...new Set(value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/** Every folder and each of its parents, in tree order. */
+function folderPaths(documents: DocumentView[]): string[] {
+  const paths = new Set<string>();
+  documents.forEach((doc) => {
+    const segments = doc.folder?.split("/") ?? [];
+    segments.forEach((_, i) => paths.add(segments.slice(0, i + 1).join("/")));
+  });
+  // Compare per segment so "a/b" sorts right after "a" rather than after "a-b".
+  const key = (path: string) => path.replace(/\//g, "\u0000");
+  return [...paths].sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+}
+
+function renderSnippet(snippet: SearchSnippet): ReactNode[] {
+  const parts: ReactNode[] = snippet.truncatedStart ? ["…"] : [];
+  let offset = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    parts.push(snippet.text.slice(offset, start), <mark key={start}>{snippet.text.slice(start, end)}</mark>);
+    offset = end;
+  });
+  parts.push(snippet.text.slice(offset), snippet.truncatedEnd ? "…" : "");
+  return parts;
+}
+
+/** Rate-limit and content-policy rejections are worth showing as they are. */
+async function rejectionMessage(res: Response): Promise<string | null> {
+  if (res.status === 429) {
+    return `Too many requests, try again in ${res.headers.get("retry-after") ?? "a few"} seconds`;
+  }
+  if (res.status === 422) {
+    const data = await res.json();
+    return data.error ?? "Content rejected";
+  }
+  return null;
+}
 
 const extensionLanguageMap: Record<string, string> = {
   ".md": "markdown",
@@ -65,12 +176,25 @@ export function EditorPage() {
     typeof window === "undefined" ? null : localStorage.getItem("txt-hosted-token")
   );
   const [authToken, setAuthToken] = useState<string | null>(initialToken);
-  const [viewScope, setViewScope] = useState<"public" | "mine">(initialToken ? "mine" : "public");
+  const [viewScope, setViewScope] = useState<"public" | "mine" | "workspace">(
+    initialToken ? "mine" : "public"
+  );
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [showWorkspaces, setShowWorkspaces] = useState(false);
   const [tokenInput, setTokenInput] = useState(initialToken ?? "");
   const [isProcessingToken, setIsProcessingToken] = useState(false);
   const [title, setTitle] = useState("Untitled");
-  const [content, setContent] = useState(defaultContent);
-  const [latestPersistedContent, setLatestPersistedContent] = useState(defaultContent);
+  const [draftVisibility, setDraftVisibility] = useState<Visibility | null>(null);
+  const [draftPassword, setDraftPassword] = useState<string | null>(null);
+  const [draftExpiresIn, setDraftExpiresIn] = useState<number | null>(null);
+  const [draftBurnAfterReads, setDraftBurnAfterReads] = useState<number | null>(null);
+  const [draftEncrypted, setDraftEncrypted] = useState(false);
+  const [encryptionKey, setEncryptionKey] = useState<string | null>(null);
+  const [files, setFiles] = useState<EditorFile[]>(defaultFiles);
+  const [activeFile, setActiveFile] = useState(0);
+  const [persistedFiles, setPersistedFiles] = useState<EditorFile[]>(defaultFiles);
   const [viewVersionContent, setViewVersionContent] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<DocumentView | null>(null);
   const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
@@ -79,37 +203,206 @@ export function EditorPage() {
   const [language, setLanguage] = useState<string>(detectLanguage("Untitled", defaultContent));
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [generatedToken, setGeneratedToken] = useState<string | null>(initialToken);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [showAccount, setShowAccount] = useState(false);
+  const [conflict, setConflict] = useState<UpdateConflictResponse | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [allDocuments, setAllDocuments] = useState<DocumentView[]>([]);
+  const [listTag, setListTag] = useState<string | null>(null);
+  const [listFolder, setListFolder] = useState<string | null>(null);
+  const [listSort, setListSort] = useState<DocumentSort>("updated");
+  const [listTruncated, setListTruncated] = useState(false);
+  const [listOrder, setListOrder] = useState<SortOrder>("desc");
+  const [tagsInput, setTagsInput] = useState("");
+  const [saveMessage, setSaveMessage] = useState("");
+  const [authorLabel, setAuthorLabel] = useState(() =>
+    typeof window === "undefined" ? "" : localStorage.getItem("txt-hosted-author") ?? ""
+  );
+  const [folderInput, setFolderInput] = useState("");
+  const [olderVersions, setOlderVersions] = useState<VersionMetadata[]>([]);
+  // Burn-after-read documents this viewer has not chosen to open, which would spend a read.
+  const [unrevealedId, setUnrevealedId] = useState<string | null>(null);
+
+  const isMultiFile = files.length > 1 || Boolean(metadata?.versions[0]?.files);
+  // Documents embed only their newest versions; older pages are fetched on demand.
+  const history = useMemo(
+    () =>
+      metadata
+        ? [
+            ...metadata.versions,
+            ...olderVersions.filter((older) => !metadata.versions.some((v) => v.versionId === older.versionId)),
+          ]
+        : [],
+    [metadata, olderVersions]
+  );
+  const activeFileName = files[activeFile]?.name ?? "";
+  const content = files[activeFile]?.content ?? defaultContent;
+  const latestPersistedContent =
+    (isMultiFile ? persistedFiles.find((file) => file.name === activeFileName) : persistedFiles[0])
+      ?.content ?? defaultContent;
+
+  const setContent = useCallback((value: string) => {
+    setFiles((prev) => prev.map((file, i) => (i === activeFile ? { ...file, content: value } : file)));
+  }, [activeFile]);
 
   const refreshDocuments = useCallback(async () => {
     try {
       const endpoint = viewScope === "mine" && authToken
         ? "/api/documents?limit=100&scope=mine"
-        : "/api/documents?limit=100";
-      const res = await fetch(endpoint, {
-        headers: authToken ? { "x-user-token": authToken } : undefined,
-      });
-      if (!res.ok) throw new Error("fetch failed");
+        : viewScope === "workspace" && authToken && workspaceId
+          ? `/api/documents?limit=100&scope=workspace&workspaceId=${encodeURIComponent(workspaceId)}`
+          : "/api/documents?limit=100";
+      const filter = new URLSearchParams();
+      if (listTag) filter.set("tag", listTag);
+      if (listFolder) filter.set("folder", listFolder);
+      if (listSort !== "updated") filter.set("sort", listSort);
+      if (listOrder !== defaultOrder(listSort)) filter.set("order", listOrder);
+      const headers = authToken ? { "x-user-token": authToken } : undefined;
+      // The unfiltered list feeds the folder tree and tag chips.
+      const [res, filteredRes] = await Promise.all([
+        fetch(endpoint, { headers }),
+        filter.toString() ? fetch(`${endpoint}&${filter}`, { headers }) : null,
+      ]);
+      if (res.status === 401) {
+        setStatus("Token is invalid or has been revoked");
+        return [] as DocumentView[];
+      }
+      if (!res.ok || (filteredRes && !filteredRes.ok)) throw new Error("fetch failed");
       const data: DocumentListResponse = await res.json();
-      setDocuments(data.documents);
-      return data.documents;
+      const filtered: DocumentListResponse = filteredRes ? await filteredRes.json() : data;
+      setAllDocuments(data.documents);
+      setDocuments(filtered.documents);
+      setListTruncated(Boolean(filtered.truncated));
+      return filtered.documents;
     } catch (error) {
       setStatus("Failed to load documents");
       return [] as DocumentView[];
     }
-  }, [authToken, viewScope]);
+  }, [authToken, listFolder, listOrder, listSort, listTag, viewScope, workspaceId]);
+
+  const folders = useMemo(() => folderPaths(allDocuments), [allDocuments]);
+  const tags = useMemo(
+    () => [...new Set(allDocuments.flatMap((doc) => doc.tags ?? []))].sort(),
+    [allDocuments]
+  );
+
+  useEffect(() => {
+    setListTag(null);
+    setListFolder(null);
+  }, [viewScope, workspaceId]);
+
+  useEffect(() => {
+    setTagsInput(metadata?.tags?.join(", ") ?? "");
+    setFolderInput(metadata?.folder ?? "");
+  }, [metadata?.id, metadata?.tags, metadata?.folder]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+    const params = new URLSearchParams({ q: query });
+    if (viewScope === "mine" && authToken) {
+      params.set("scope", "mine");
+    } else if (viewScope === "workspace" && authToken && workspaceId) {
+      params.set("scope", "workspace");
+      params.set("workspaceId", workspaceId);
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/documents/search?${params}`, {
+          headers: authToken ? { "x-user-token": authToken } : undefined,
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error("search failed");
+        const data: SearchResponse = await res.json();
+        setSearchResults(data.results);
+      } catch (error) {
+        if (!controller.signal.aborted) setStatus("Search failed");
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [authToken, searchQuery, viewScope, workspaceId]);
+
+  const refreshWorkspaces = useCallback(async (nextId?: string | null) => {
+    if (!authToken) {
+      setWorkspaces([]);
+      setUserId(null);
+      return;
+    }
+    try {
+      const headers = { "x-user-token": authToken };
+      const [listRes, accountRes] = await Promise.all([
+        fetch("/api/workspaces", { headers }),
+        fetch("/api/account", { headers }),
+      ]);
+      if (accountRes.ok) {
+        const account: AccountResponse = await accountRes.json();
+        setUserId(account.id);
+      }
+      if (!listRes.ok) throw new Error("workspaces failed");
+      const data: WorkspaceListResponse = await listRes.json();
+      setWorkspaces(data.workspaces);
+      setWorkspaceId((current) => {
+        const wanted = nextId === undefined ? current : nextId;
+        return data.workspaces.some((workspace) => workspace.id === wanted)
+          ? wanted
+          : data.workspaces[0]?.id ?? null;
+      });
+      if (nextId) {
+        setViewScope("workspace");
+        setActiveId(null);
+      } else if (nextId === null || !data.workspaces.length) {
+        setViewScope((scope) => (scope === "workspace" ? "mine" : scope));
+      }
+    } catch (error) {
+      setWorkspaces([]);
+    }
+  }, [authToken]);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const saveToken = useCallback((token: string) => {
+    if (token) {
+      localStorage.setItem("txt-hosted-token", token);
+    } else {
+      localStorage.removeItem("txt-hosted-token");
+      setViewScope("public");
+      setShowAccount(false);
+    }
+    setTokenInput(token);
+    setAuthToken(token || null);
+    setGeneratedToken(token || null);
+  }, []);
 
   const resetEditorState = useCallback((nextTitle: string = "Untitled") => {
     setTitle(nextTitle);
-    setContent(defaultContent);
+    setFiles(defaultFiles);
+    setActiveFile(0);
     setMetadata(null);
     setSelectedVersion(null);
     setDiffText("");
-    setLatestPersistedContent(defaultContent);
+    setPersistedFiles(defaultFiles);
     setViewVersionContent(null);
+    setConflict(null);
+    setDraftVisibility(null);
+    setDraftPassword(null);
+    setDraftExpiresIn(null);
+    setDraftBurnAfterReads(null);
+    setDraftEncrypted(false);
+    setEncryptionKey(null);
     setLanguage(detectLanguage(nextTitle, defaultContent));
   }, []);
 
-  const loadDocument = useCallback(async (id: string) => {
+  const loadDocument = useCallback(async (id: string, reveal = false) => {
     try {
       setStatus("Loading document...");
       const metaRes = await fetch(`/api/documents/${id}`, {
@@ -117,17 +410,54 @@ export function EditorPage() {
       });
       if (!metaRes.ok) throw new Error("meta failed");
       const meta: DocumentView = await metaRes.json();
-      const raw = await fetch(`/api/documents/${id}/raw`, {
-        headers: authToken ? { "x-user-token": authToken } : undefined,
-      }).then((res) => res.text());
+      const head = meta.versions[0];
+      if (meta.maxReads && !meta.isOwner && !meta.role && !reveal) {
+        const empty: EditorFile[] = [{ name: "", content: "", contentType: head?.contentType }];
+        setMetadata(meta);
+        setTitle(meta.title);
+        setFiles(empty);
+        setActiveFile(0);
+        setSelectedVersion(head?.versionId ?? null);
+        setPersistedFiles(empty);
+        setViewVersionContent(null);
+        setConflict(null);
+        setUnrevealedId(id);
+        setStatus("");
+        return;
+      }
+      setUnrevealedId(null);
+      const key = meta.encrypted
+        ? loadDocumentKey(id) ??
+          keyFromFragment(window.prompt("Paste the view link or key for this encrypted document") ?? "")
+        : null;
+      let loaded: EditorFile[] = [{ name: "", content: "", contentType: head?.contentType }];
+      if (meta.encrypted && !key) {
+        setStatus("Encryption key required to open this document");
+      } else if (head?.files) {
+        const versionRes = await fetch(`/api/documents/${id}/version?versionId=${head.versionId}`, {
+          headers: authToken ? { "x-user-token": authToken } : undefined,
+        });
+        if (!versionRes.ok) throw new Error("version failed");
+        const version: DocumentVersion = await versionRes.json();
+        loaded = toEditorFiles(key ? await decryptVersion(version, key) : version);
+      } else if (isTextContentType(head?.contentType)) {
+        const raw = await fetch(`/api/documents/${id}/raw`, {
+          headers: authToken ? { "x-user-token": authToken } : undefined,
+        }).then((res) => res.text());
+        loaded = [{ name: "", content: key ? await decryptText(raw, key) : raw }];
+      }
+      if (key) saveDocumentKey(id, key);
+      setEncryptionKey(key);
       setMetadata(meta);
       setTitle(meta.title);
-      setContent(raw);
+      setFiles(loaded);
+      setActiveFile(0);
       setSelectedVersion(meta.versions[0]?.versionId ?? null);
       setDiffText("");
-      setLatestPersistedContent(raw);
+      setPersistedFiles(loaded);
       setViewVersionContent(null);
-      setStatus("");
+      setConflict(null);
+      if (!meta.encrypted || key) setStatus("");
     } catch (error) {
       setStatus("Failed to load document");
     }
@@ -155,6 +485,10 @@ export function EditorPage() {
     loadDocument(activeId);
   }, [activeId, loadDocument]);
 
+  useEffect(() => {
+    setOlderVersions([]);
+  }, [metadata?.id, metadata?.versionCount]);
+
   useEffect(() => {
     if (!metadata || !selectedVersion || !metadata.versions.length) {
       setViewVersionContent(null);
@@ -162,19 +496,29 @@ export function EditorPage() {
       return;
     }
     const latestVersion = metadata.versions[0];
-    if (selectedVersion === latestVersion.versionId) {
+    const version = history.find((v) => v.versionId === selectedVersion);
+    const versionFile = version?.files?.find((file) => file.name === activeFileName);
+    if (
+      selectedVersion === latestVersion.versionId ||
+      !isTextContentType(versionFile ? versionFile.contentType : version?.contentType)
+    ) {
       setViewVersionContent(null);
       setDiffText("");
       return;
     }
+    const rawPath = version?.files
+      ? `/api/documents/${metadata.id}/raw/${encodeURIComponent(activeFileName)}`
+      : `/api/documents/${metadata.id}/raw`;
     let cancelled = false;
     (async () => {
       try {
-        const res = await fetch(`/api/documents/${metadata.id}/raw?versionId=${selectedVersion}`, {
+        const res = await fetch(`${rawPath}?versionId=${selectedVersion}`, {
           headers: authToken ? { "x-user-token": authToken } : undefined,
         });
         if (!res.ok) throw new Error("version download failed");
-        const text = await res.text();
+        const raw = await res.text();
+        if (metadata.encrypted && !encryptionKey) throw new Error("key required");
+        const text = encryptionKey ? await decryptText(raw, encryptionKey) : raw;
         if (!cancelled) {
           setViewVersionContent(text);
         }
@@ -188,7 +532,7 @@ export function EditorPage() {
     return () => {
       cancelled = true;
     };
-  }, [metadata, selectedVersion]);
+  }, [activeFileName, encryptionKey, history, metadata, selectedVersion]);
 
   useEffect(() => {
     if (!metadata || !selectedVersion || !metadata.versions.length) {
@@ -204,35 +548,82 @@ export function EditorPage() {
   }, [metadata, selectedVersion, viewVersionContent, latestPersistedContent]);
 
   useEffect(() => {
-    setLanguage(detectLanguage(title, content));
-  }, [title, content]);
+    setLanguage(detectLanguage(isMultiFile ? activeFileName : title, content));
+  }, [activeFileName, content, isMultiFile, title]);
 
   const handleSave = useCallback(async () => {
     const trimmedTitle = title.trim() || "Untitled";
+    const filesPayload = isMultiFile
+      ? { files: files.map(({ name, content: fileContent }) => ({ name, content: fileContent })) }
+      : { content: files[0]?.content ?? defaultContent };
 
     if (metadata && (!activeId || !activeId.startsWith("draft-"))) {
+      if (unrevealedId === metadata.id) {
+        setStatus("Reveal the document before editing it");
+        return;
+      }
       if (!authToken) {
         setStatus("Token required to update documents");
         return;
       }
-      setStatus("Updating...");
+      if (metadata.role === "viewer") {
+        setStatus("Viewers cannot edit workspace documents");
+        return;
+      }
+      if (metadata.encrypted && !encryptionKey) {
+        setStatus("Encryption key required to update this document");
+        return;
+      }
+      const isRenameOnly = filesEqual(files, persistedFiles) && trimmedTitle !== metadata.title;
+      if (!isRenameOnly && !isMultiFile && !isTextContentType(metadata.versions[0]?.contentType)) {
+        setStatus("Binary files can only be renamed here");
+        return;
+      }
+      setStatus(isRenameOnly ? "Renaming..." : "Updating...");
       try {
         const res = await fetch(`/api/documents/${metadata.id}`, {
-          method: "PUT",
+          method: isRenameOnly ? "PATCH" : "PUT",
           headers: {
             "content-type": "application/json",
             "x-user-token": authToken,
           },
-          body: JSON.stringify({ content, title: trimmedTitle }),
+          body: JSON.stringify(
+            isRenameOnly
+              ? { title: trimmedTitle }
+              : {
+                  ...(encryptionKey ? await encryptPayload(filesPayload, encryptionKey) : filesPayload),
+                  title: trimmedTitle,
+                  baseVersionId: metadata.versions[0]?.versionId,
+                  message: saveMessage.trim() || undefined,
+                  author: authorLabel.trim() || undefined,
+                }
+          ),
         });
+        if (res.status === 409) {
+          const data: UpdateConflictResponse = await res.json();
+          if (encryptionKey) {
+            data.currentVersion = await decryptVersion(data.currentVersion, encryptionKey);
+          }
+          setConflict(data);
+          setStatus("Document changed on the server");
+          return;
+        }
+        const rejection = await rejectionMessage(res);
+        if (rejection) {
+          setStatus(rejection);
+          return;
+        }
         if (!res.ok) throw new Error("update failed");
         const data = await res.json();
         const nextMeta: DocumentView = data.metadata ?? data;
         setMetadata(nextMeta);
         setSelectedVersion(nextMeta.versions[0]?.versionId ?? null);
-        setLatestPersistedContent(content);
+        setTitle(nextMeta.title);
+        setPersistedFiles(files);
         setViewVersionContent(null);
-        setStatus("Updated");
+        setConflict(null);
+        if (!isRenameOnly) setSaveMessage("");
+        setStatus(isRenameOnly ? "Renamed" : "Updated");
         setActiveId(nextMeta.id);
         setDocuments((prev) => {
           const filtered = prev.filter((doc) => doc.id !== nextMeta.id);
@@ -246,9 +637,20 @@ export function EditorPage() {
     }
 
     setStatus("Saving...");
+    const key = draftEncrypted ? await createDocumentKey() : null;
     const payload = {
       title: trimmedTitle,
-      content,
+      ...(key ? await encryptPayload(filesPayload, key) : filesPayload),
+      encrypted: key ? true : undefined,
+      workspaceId: viewScope === "workspace" && workspaceId ? workspaceId : undefined,
+      visibility: draftVisibility ?? undefined,
+      password: draftVisibility === "password" ? draftPassword ?? undefined : undefined,
+      expiresInSeconds: draftExpiresIn ?? undefined,
+      burnAfterReads: draftBurnAfterReads ?? undefined,
+      tags: parseTags(tagsInput),
+      folder: folderInput.trim() || undefined,
+      message: saveMessage.trim() || undefined,
+      author: authorLabel.trim() || undefined,
     };
     try {
       const res = await fetch("/api/documents", {
@@ -259,20 +661,28 @@ export function EditorPage() {
         },
         body: JSON.stringify(payload),
       });
+      const rejection = await rejectionMessage(res);
+      if (rejection) {
+        setStatus(rejection);
+        return;
+      }
       if (!res.ok) throw new Error("save failed");
       const data = await res.json();
       const meta: DocumentView = data.metadata ?? data;
+      if (key) saveDocumentKey(meta.id, key);
+      setEncryptionKey(key);
       setMetadata(meta);
       setSelectedVersion(meta.versions[0]?.versionId ?? null);
-      setLatestPersistedContent(content);
+      setPersistedFiles(files);
       setViewVersionContent(null);
+      setSaveMessage("");
       setStatus("Saved");
       setActiveId(meta.id);
       setDocuments((prev) => {
         const filtered = prev.filter((doc) => doc.id !== meta.id);
         return [meta, ...filtered];
       });
-      if (meta.isPrivate && viewScope !== "mine") {
+      if (authToken && meta.isPrivate && !meta.workspaceId && viewScope !== "mine") {
         setViewScope("mine");
       } else {
         await refreshDocuments();
@@ -280,13 +690,137 @@ export function EditorPage() {
     } catch (error) {
       setStatus("Failed to save");
     }
-  }, [activeId, authToken, content, metadata, refreshDocuments, title, viewScope]);
+  }, [activeId, authToken, authorLabel, draftBurnAfterReads, draftEncrypted, draftExpiresIn, draftPassword, draftVisibility, encryptionKey, files, folderInput, isMultiFile, metadata, persistedFiles, refreshDocuments, saveMessage, tagsInput, title, unrevealedId, viewScope, workspaceId]);
+
+  const handleUpload = useCallback(async (selected: File[]) => {
+    setStatus("Uploading...");
+    const form = new FormData();
+    selected.forEach((file) => form.append("file", file));
+    form.append("title", selected[0].name);
+    if (viewScope === "workspace" && workspaceId) form.append("workspaceId", workspaceId);
+    try {
+      const res = await fetch("/api/documents", {
+        method: "POST",
+        headers: authToken ? { "x-user-token": authToken } : undefined,
+        body: form,
+      });
+      if (res.status === 413) {
+        setStatus("File exceeds size limit");
+        return;
+      }
+      const rejection = await rejectionMessage(res);
+      if (rejection) {
+        setStatus(rejection);
+        return;
+      }
+      if (!res.ok) throw new Error("upload failed");
+      const data = await res.json();
+      const meta: DocumentView = data.metadata;
+      setStatus("Uploaded");
+      setDocuments((prev) => [meta, ...prev.filter((doc) => doc.id !== meta.id)]);
+      setActiveId(meta.id);
+      if (authToken && meta.isPrivate && !meta.workspaceId && viewScope !== "mine") {
+        setViewScope("mine");
+      } else {
+        await refreshDocuments();
+      }
+    } catch (error) {
+      setStatus("Failed to upload");
+    }
+  }, [authToken, refreshDocuments, viewScope, workspaceId]);
+
+  const adoptServerHead = useCallback((current: UpdateConflictResponse) => {
+    setMetadata(current.current);
+    setSelectedVersion(current.current.versions[0]?.versionId ?? null);
+    setPersistedFiles(toEditorFiles(current.currentVersion));
+    setViewVersionContent(null);
+    setConflict(null);
+  }, []);
+
+  const handleMerge = useCallback(() => {
+    if (!conflict) return;
+    const result = mergeFiles(persistedFiles, files, toEditorFiles(conflict.currentVersion));
+    setFiles(result.files);
+    adoptServerHead(conflict);
+    setStatus(
+      result.conflicts
+        ? `Merged with ${result.conflicts} conflict${result.conflicts === 1 ? "" : "s"}; resolve and save`
+        : "Merged cleanly; save to apply"
+    );
+  }, [adoptServerHead, conflict, files, persistedFiles]);
+
+  const handleKeepMine = useCallback(() => {
+    if (!conflict) return;
+    adoptServerHead(conflict);
+    setStatus("Save again to overwrite the server version");
+  }, [adoptServerHead, conflict]);
+
+  const handleUseServer = useCallback(() => {
+    if (!conflict) return;
+    setFiles(toEditorFiles(conflict.currentVersion));
+    setActiveFile(0);
+    setTitle(conflict.current.title);
+    adoptServerHead(conflict);
+    setStatus("Loaded server version");
+  }, [adoptServerHead, conflict]);
+
+  const headContentType = isMultiFile ? files[activeFile]?.contentType : metadata?.versions[0]?.contentType;
+
+  const conflictDiff = useMemo(() => {
+    if (!conflict) return "";
+    const serverFiles = toEditorFiles(conflict.currentVersion);
+    const server = isMultiFile ? serverFiles.find((file) => file.name === activeFileName) : serverFiles[0];
+    return difference(server?.content ?? "", content);
+  }, [activeFileName, conflict, content, isMultiFile]);
+
+  const promptFileName = useCallback((current: string, taken: string[]) => {
+    const value = window.prompt("File name", current)?.trim();
+    if (!value) return null;
+    if (value.includes("/")) {
+      setStatus("File names cannot contain slashes");
+      return null;
+    }
+    if (taken.includes(value)) {
+      setStatus(`${value} already exists`);
+      return null;
+    }
+    return value;
+  }, []);
+
+  const handleAddFile = useCallback(() => {
+    const firstName = isMultiFile ? files[0].name : title.trim() || "Untitled";
+    const taken = isMultiFile ? files.map((file) => file.name) : [firstName];
+    const name = promptFileName("", taken);
+    if (!name) return;
+    if (!isMultiFile) {
+      setPersistedFiles((prev) => prev.map((file, i) => (i === 0 ? { ...file, name: firstName } : file)));
+    }
+    setFiles((prev) => [
+      ...prev.map((file, i) => (i === 0 && !isMultiFile ? { ...file, name: firstName } : file)),
+      { name, content: "" },
+    ]);
+    setActiveFile(files.length);
+  }, [files, isMultiFile, promptFileName, title]);
+
+  const handleRenameFile = useCallback((index: number) => {
+    if (!isMultiFile) return;
+    const taken = files.filter((_, i) => i !== index).map((file) => file.name);
+    const name = promptFileName(files[index].name, taken);
+    if (!name) return;
+    setFiles((prev) => prev.map((file, i) => (i === index ? { ...file, name } : file)));
+  }, [files, isMultiFile, promptFileName]);
+
+  const handleRemoveFile = useCallback((index: number) => {
+    if (files.length < 2) return;
+    if (!window.confirm(`Remove ${files[index].name}?`)) return;
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+    setActiveFile(0);
+  }, [files]);
 
   const handleNewDocument = useCallback(() => {
     const placeholderId = `draft-${Date.now()}`;
     const nextTitle = title.trim() || "Untitled";
     resetEditorState(nextTitle);
-    setLatestPersistedContent(defaultContent);
     setViewVersionContent(null);
     setStatus("Creating new document");
     setDocuments((prev) => {
@@ -298,8 +832,10 @@ export function EditorPage() {
         updatedAt: new Date().toISOString(),
         size: 0,
         versions: [],
+        visibility: authToken ? "private" : "public",
         isOwner: Boolean(authToken),
         isPrivate: Boolean(authToken),
+        versionCount: 0,
       };
       return [placeholder, ...filtered];
     });
@@ -308,6 +844,175 @@ export function EditorPage() {
   }, [authToken, resetEditorState, title]);
 
 
+  const handleVisibilityChange = useCallback(async (next: Visibility) => {
+    let password: string | undefined;
+    if (next === "password") {
+      const value = window.prompt("Password for this document");
+      if (!value) return;
+      password = value;
+    }
+    if (!metadata) {
+      setDraftVisibility(next);
+      setDraftPassword(password ?? null);
+      return;
+    }
+    if (!authToken) return;
+    setStatus("Updating visibility...");
+    try {
+      const res = await fetch(`/api/documents/${metadata.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: JSON.stringify({ visibility: next, password }),
+      });
+      if (res.status === 400) {
+        const data = await res.json();
+        setStatus(data.error ?? "Invalid visibility");
+        return;
+      }
+      if (!res.ok) throw new Error("visibility failed");
+      const meta: DocumentView = await res.json();
+      setMetadata(meta);
+      setDocuments((prev) => prev.map((doc) => (doc.id === meta.id ? meta : doc)));
+      setStatus(`Visibility set to ${meta.visibility}`);
+    } catch (error) {
+      setStatus("Failed to update visibility");
+    }
+  }, [authToken, metadata]);
+
+  /** Saves tag and folder edits right away; new documents send them with the first save. */
+  const handleOrganize = useCallback(async () => {
+    if (!metadata || !authToken || metadata.role === "viewer") return;
+    const nextTags = parseTags(tagsInput);
+    const nextFolder = folderInput.trim();
+    if (nextTags.join(",") === (metadata.tags ?? []).join(",") && nextFolder === (metadata.folder ?? "")) {
+      return;
+    }
+    setStatus("Updating tags and folder...");
+    try {
+      const res = await fetch(`/api/documents/${metadata.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: JSON.stringify({ tags: nextTags, folder: nextFolder || null }),
+      });
+      if (res.status === 400) {
+        const data = await res.json();
+        setStatus(data.error ?? "Invalid tags or folder");
+        return;
+      }
+      if (!res.ok) throw new Error("organize failed");
+      const meta: DocumentView = await res.json();
+      setMetadata(meta);
+      setStatus("Tags and folder updated");
+      await refreshDocuments();
+    } catch (error) {
+      setStatus("Failed to update tags and folder");
+    }
+  }, [authToken, folderInput, metadata, refreshDocuments, tagsInput]);
+
+  const handleRestore = useCallback(async (versionId: string) => {
+    if (!metadata || !authToken) return;
+    const prompt = filesEqual(files, persistedFiles)
+      ? "Save this version again as the latest?"
+      : "Save this version again as the latest? Unsaved changes will be lost.";
+    if (typeof window !== "undefined" && !window.confirm(prompt)) return;
+
+    setStatus("Restoring...");
+    try {
+      const res = await fetch(`/api/documents/${metadata.id}/versions/${versionId}/restore`, {
+        method: "POST",
+        headers: { "x-user-token": authToken },
+      });
+      const rejection = await rejectionMessage(res);
+      if (rejection) {
+        setStatus(rejection);
+        return;
+      }
+      if (res.status === 409) {
+        await loadDocument(metadata.id);
+        setStatus("Document changed while restoring; try again");
+        return;
+      }
+      if (!res.ok) throw new Error("restore failed");
+      await loadDocument(metadata.id);
+      setStatus("Version restored");
+      await refreshDocuments();
+    } catch (error) {
+      setStatus("Failed to restore version");
+    }
+  }, [authToken, files, loadDocument, metadata, persistedFiles, refreshDocuments]);
+
+  const handleLoadOlderVersions = useCallback(async () => {
+    if (!metadata || !history.length) return;
+    try {
+      const res = await fetch(
+        `/api/documents/${metadata.id}/versions?cursor=${history[history.length - 1].versionId}`,
+        { headers: authToken ? { "x-user-token": authToken } : undefined }
+      );
+      if (res.status === 400) {
+        // The history was pruned underneath the list, so start over from the document.
+        await loadDocument(metadata.id);
+        return;
+      }
+      if (!res.ok) throw new Error("versions failed");
+      const data: VersionListResponse = await res.json();
+      setOlderVersions((prev) => [...prev, ...data.versions]);
+    } catch (error) {
+      setStatus("Failed to load older versions");
+    }
+  }, [authToken, history, loadDocument, metadata]);
+
+  const handleRetention = useCallback(async (value: string) => {
+    const option = RETENTION_OPTIONS.find((candidate) => candidate.value === value);
+    if (!metadata || !authToken || !option) return;
+    if (
+      typeof window !== "undefined" &&
+      !window.confirm("Versions outside the new policy are deleted. Labeled versions are always kept. Continue?")
+    ) {
+      return;
+    }
+
+    setStatus("Updating history retention...");
+    try {
+      const res = await fetch(`/api/documents/${metadata.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: JSON.stringify({ retention: option.retention }),
+      });
+      if (!res.ok) throw new Error("retention failed");
+      const meta: DocumentView = await res.json();
+      setMetadata(meta);
+      if (!meta.versions.some((v) => v.versionId === selectedVersion)) {
+        setSelectedVersion(meta.versions[0]?.versionId ?? null);
+      }
+      setStatus("History retention updated");
+    } catch (error) {
+      setStatus("Failed to update history retention");
+    }
+  }, [authToken, metadata, selectedVersion]);
+
+  const handleLabel = useCallback(async (label: string, versionId: string | null) => {
+    if (!metadata || !authToken) return;
+    setStatus(versionId ? `Labelling ${label}...` : `Removing ${label}...`);
+    try {
+      const res = await fetch(`/api/documents/${metadata.id}/labels/${encodeURIComponent(label)}`, {
+        method: versionId ? "PUT" : "DELETE",
+        headers: { "content-type": "application/json", "x-user-token": authToken },
+        body: versionId ? JSON.stringify({ versionId }) : undefined,
+      });
+      if (res.status === 400) {
+        const data = await res.json();
+        setStatus(data.error ?? "Invalid label");
+        return;
+      }
+      if (!res.ok) throw new Error("label failed");
+      const meta: DocumentView = await res.json();
+      setMetadata(meta);
+      setStatus(versionId ? `Labelled ${label}` : `Removed ${label}`);
+    } catch (error) {
+      setStatus("Failed to update label");
+    }
+  }, [authToken, metadata]);
+
   const handleDelete = useCallback(async () => {
     if (!metadata || !authToken) return;
     if (typeof window !== "undefined" && !window.confirm("Delete this document?")) {
@@ -335,25 +1040,36 @@ export function EditorPage() {
 
   const latestVersionId = metadata?.versions[0]?.versionId ?? null;
 
+  const rawPath = useCallback(
+    (versionId: string) => {
+      if (!metadata) return "";
+      const version = history.find((v) => v.versionId === versionId);
+      return version?.files
+        ? `/api/documents/${metadata.id}/raw/${encodeURIComponent(activeFileName)}`
+        : `/api/documents/${metadata.id}/raw`;
+    },
+    [activeFileName, history, metadata]
+  );
+
   const latestRawUrl = useMemo(() => {
     if (!metadata || !latestVersionId) return null;
-    const url = new URL(`/api/documents/${metadata.id}/raw`, window.location.origin);
+    const url = new URL(rawPath(latestVersionId), window.location.origin);
     url.searchParams.set("versionId", latestVersionId);
     if (metadata.rawAccessKey) {
       url.searchParams.set("rawKey", metadata.rawAccessKey);
     }
     return url.toString();
-  }, [metadata, latestVersionId]);
+  }, [metadata, latestVersionId, rawPath]);
 
   const currentRawUrl = useMemo(() => {
     if (!metadata || !selectedVersion) return null;
-    const url = new URL(`/api/documents/${metadata.id}/raw`, window.location.origin);
+    const url = new URL(rawPath(selectedVersion), window.location.origin);
     url.searchParams.set("versionId", selectedVersion);
     if (metadata.rawAccessKey) {
       url.searchParams.set("rawKey", metadata.rawAccessKey);
     }
     return url.toString();
-  }, [metadata, selectedVersion]);
+  }, [metadata, rawPath, selectedVersion]);
 
   return (
     <div className="layout">
@@ -369,10 +1085,8 @@ export function EditorPage() {
                 if (!value) return;
                 const trimmed = value.trim();
                 if (!trimmed) return;
-                localStorage.setItem("txt-hosted-token", trimmed);
-                setTokenInput(trimmed);
-                setAuthToken(trimmed);
-                setGeneratedToken(trimmed);
+                saveToken(trimmed);
+                setRecoveryCode(null);
                 setStatus("Token saved");
                 resetEditorState();
                 refreshDocuments();
@@ -389,11 +1103,9 @@ export function EditorPage() {
                   const res = await fetch("/api/token", { method: "POST" });
                   if (!res.ok) throw new Error("token");
                   const data: UserTokenResponse = await res.json();
-                  localStorage.setItem("txt-hosted-token", data.token);
-                  setTokenInput(data.token);
-                  setAuthToken(data.token);
-                  setGeneratedToken(data.token);
-                  setStatus("New token generated");
+                  saveToken(data.token);
+                  setRecoveryCode(data.recoveryCode ?? null);
+                  setStatus("New account created");
                   resetEditorState();
                   await refreshDocuments();
                 } catch (error) {
@@ -405,15 +1117,50 @@ export function EditorPage() {
             >
               Generate token
             </button>
+            <button
+              className="token-button"
+              disabled={isProcessingToken}
+              onClick={async () => {
+                const value = window.prompt("Enter recovery code");
+                if (!value?.trim()) return;
+                setIsProcessingToken(true);
+                try {
+                  const res = await fetch("/api/account/recover", {
+                    method: "POST",
+                    headers: { "content-type": "application/json" },
+                    body: JSON.stringify({ recoveryCode: value.trim() }),
+                  });
+                  if (res.status === 401) {
+                    setStatus("Recovery code not recognised");
+                    return;
+                  }
+                  if (!res.ok) throw new Error("recover");
+                  const data: UserTokenResponse = await res.json();
+                  saveToken(data.token);
+                  setRecoveryCode(data.recoveryCode ?? null);
+                  setStatus("Account recovered");
+                  resetEditorState();
+                  await refreshDocuments();
+                } catch (error) {
+                  setStatus("Failed to recover account");
+                } finally {
+                  setIsProcessingToken(false);
+                }
+              }}
+            >
+              Recover account
+            </button>
+            {authToken && (
+              <button className="token-button" onClick={() => setShowAccount((prev) => !prev)}>
+                {showAccount ? "Hide account" : "Account"}
+              </button>
+            )}
             {authToken && (
               <button
                 className="token-button"
                 onClick={async () => {
-                  localStorage.removeItem("txt-hosted-token");
-                  setAuthToken(null);
-                  setTokenInput("");
-                  setGeneratedToken(null);
-                  setViewScope("public");
+                  saveToken("");
+                  setRecoveryCode(null);
                   setStatus("Token cleared");
                   resetEditorState();
                   await refreshDocuments();
@@ -449,8 +1196,44 @@ export function EditorPage() {
                 </button>
               </div>
             )}
+            {recoveryCode && (
+              <div className="generated-token-display">
+                <span>Recovery code (shown once):</span>
+                <code>{recoveryCode}</code>
+                <button className="token-button" onClick={() => setRecoveryCode(null)}>
+                  Dismiss
+                </button>
+              </div>
+            )}
           </div>
         </div>
+        {showWorkspaces && authToken && (
+          <WorkspacePanel
+            authToken={authToken}
+            currentUserId={userId}
+            workspace={
+              viewScope === "workspace"
+                ? workspaces.find((workspace) => workspace.id === workspaceId) ?? null
+                : null
+            }
+            onChange={refreshWorkspaces}
+            onStatus={setStatus}
+          />
+        )}
+        {showAccount && authToken && (
+          <AccountPanel
+            authToken={authToken}
+            activeDocumentId={metadata?.isOwner ? metadata.id : null}
+            onTokenChange={(token) => {
+              saveToken(token);
+              if (!token) {
+                resetEditorState();
+                refreshDocuments();
+              }
+            }}
+            onStatus={setStatus}
+          />
+        )}
         <div className="auth-bar">
           <div className="scope-toggle">
             <label>
@@ -478,12 +1261,158 @@ export function EditorPage() {
               />
               Mine
             </label>
+            <label>
+              <input
+                type="radio"
+                value="workspace"
+                checked={viewScope === "workspace"}
+                onChange={() => {
+                  setViewScope("workspace");
+                  setActiveId(null);
+                }}
+                disabled={!authToken || !workspaces.length}
+              />
+              Workspace
+            </label>
+            {viewScope === "workspace" && workspaces.length > 0 && (
+              <select
+                className="workspace-select"
+                value={workspaceId ?? ""}
+                onChange={(e) => {
+                  setWorkspaceId(e.target.value);
+                  setActiveId(null);
+                }}
+              >
+                {workspaces.map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {workspace.name} ({workspace.role})
+                  </option>
+                ))}
+              </select>
+            )}
+            {authToken && (
+              <button className="token-button secondary" onClick={() => setShowWorkspaces((prev) => !prev)}>
+                {showWorkspaces ? "Hide workspaces" : "Manage workspaces"}
+              </button>
+            )}
           </div>
         </div>
         <div className="controls">
           <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title" />
+          <select
+            className="visibility-select"
+            value={metadata?.visibility ?? draftVisibility ?? (authToken ? "private" : "public")}
+            disabled={Boolean(metadata && !metadata.isOwner)}
+            onChange={(e) => handleVisibilityChange(e.target.value as Visibility)}
+            title="Who can open this document"
+          >
+            <option value="public">Public</option>
+            <option value="unlisted">Unlisted</option>
+            <option value="private" disabled={!authToken}>
+              Private
+            </option>
+            <option value="password" disabled={!authToken}>
+              Password
+            </option>
+          </select>
+          {!metadata && (
+            <>
+              <select
+                className="expiry-select"
+                value={draftExpiresIn ?? ""}
+                onChange={(e) => setDraftExpiresIn(e.target.value ? Number(e.target.value) : null)}
+                title="Delete the document after this long"
+              >
+                {EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.seconds ?? ""}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="expiry-select"
+                value={draftBurnAfterReads ?? ""}
+                onChange={(e) => setDraftBurnAfterReads(e.target.value ? Number(e.target.value) : null)}
+                title="Delete the document after this many reads"
+              >
+                <option value="">Keep after reading</option>
+                {BURN_AFTER_READS_OPTIONS.map((reads) => (
+                  <option key={reads} value={reads}>
+                    Burn after {reads} {reads === 1 ? "read" : "reads"}
+                  </option>
+                ))}
+              </select>
+              <label className="encrypt-toggle" title="Encrypt in the browser; the key stays in the link">
+                <input
+                  type="checkbox"
+                  checked={draftEncrypted}
+                  onChange={(e) => setDraftEncrypted(e.target.checked)}
+                />
+                Encrypt
+              </label>
+            </>
+          )}
+          <input
+            className="folder-input"
+            value={folderInput}
+            onChange={(e) => setFolderInput(e.target.value)}
+            onBlur={handleOrganize}
+            onKeyDown={(e) => e.key === "Enter" && handleOrganize()}
+            disabled={metadata?.role === "viewer"}
+            placeholder="Folder, e.g. notes/work"
+          />
+          <input
+            className="tags-input"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            onBlur={handleOrganize}
+            onKeyDown={(e) => e.key === "Enter" && handleOrganize()}
+            disabled={metadata?.role === "viewer"}
+            placeholder="Tags, comma separated"
+          />
+          {metadata?.encrypted && <span className="doc-meta">Encrypted</span>}
+          {metadata?.expiresAt && (
+            <span className="doc-meta">Expires {new Date(metadata.expiresAt).toLocaleString()}</span>
+          )}
+          {metadata?.maxReads && (
+            <span className="doc-meta">
+              {metadata.maxReads - (metadata.reads ?? 0)} of {metadata.maxReads} reads left
+            </span>
+          )}
+          {metadata?.visibility === "password" && metadata.isOwner && (
+            <button type="button" onClick={() => handleVisibilityChange("password")}>
+              Change password
+            </button>
+          )}
+          <input
+            className="message-input"
+            value={saveMessage}
+            onChange={(e) => setSaveMessage(e.target.value)}
+            placeholder="What changed? (optional)"
+          />
+          <input
+            className="author-input"
+            value={authorLabel}
+            onChange={(e) => {
+              setAuthorLabel(e.target.value);
+              localStorage.setItem("txt-hosted-author", e.target.value);
+            }}
+            placeholder="Author"
+          />
           <button onClick={handleSave}>Save</button>
           <button onClick={handleNewDocument}>New</button>
+          <label className="upload-button">
+            Upload
+            <input
+              type="file"
+              multiple
+              onChange={(e) => {
+                const selected = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                if (selected.length) handleUpload(selected);
+              }}
+            />
+          </label>
           {metadata?.isOwner && (
             <button className="danger" onClick={handleDelete}>
               Delete
@@ -502,28 +1431,131 @@ export function EditorPage() {
         {isSidebarOpen && (
           <aside className="doc-list">
             <h2 className="docs-heading">Documents</h2>
-            <ul>
-              {documents.map((doc) => (
-                <li key={doc.id}>
+            <input
+              className="search-input"
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search titles and content"
+            />
+            <div className="list-sort">
+              <select
+                value={listSort}
+                onChange={(e) => {
+                  const next = e.target.value as DocumentSort;
+                  setListSort(next);
+                  setListOrder(defaultOrder(next));
+                }}
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.sort} value={option.sort}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setListOrder((prev) => (prev === "asc" ? "desc" : "asc"))}
+                title={listOrder === "asc" ? "Ascending" : "Descending"}
+              >
+                {listOrder === "asc" ? "↑" : "↓"}
+              </button>
+            </div>
+            {folders.length > 0 && (
+              <ul className="folder-tree">
+                <li>
+                  <button className={listFolder === null ? "active" : ""} onClick={() => setListFolder(null)}>
+                    All folders
+                  </button>
+                </li>
+                {folders.map((path) => {
+                  const segments = path.split("/");
+                  return (
+                    <li key={path} style={{ paddingLeft: `${segments.length * 0.75}rem` }}>
+                      <button
+                        className={listFolder === path ? "active" : ""}
+                        onClick={() => setListFolder((prev) => (prev === path ? null : path))}
+                        title={path}
+                      >
+                        {segments[segments.length - 1]}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {tags.length > 0 && (
+              <div className="tag-chips">
+                {tags.map((tag) => (
                   <button
-                    className={doc.id === activeId ? "active" : ""}
-                    onClick={() => setActiveId(doc.id)}
+                    key={tag}
+                    className={listTag === tag ? "active" : ""}
+                    onClick={() => setListTag((prev) => (prev === tag ? null : tag))}
                   >
-                    <span className="doc-title">{doc.title}</span>
-                    <span className="doc-meta">{new Date(doc.updatedAt).toLocaleString()}</span>
+                    #{tag}
                   </button>
-                </li>
-              ))}
-            </ul>
+                ))}
+              </div>
+            )}
+            {searchResults ? (
+              <ul className="search-results">
+                {searchResults.length === 0 && <li className="doc-meta">No matches</li>}
+                {searchResults.map(({ document: doc, snippet }) => (
+                  <li key={doc.id}>
+                    <button
+                      className={doc.id === activeId ? "active" : ""}
+                      onClick={() => setActiveId(doc.id)}
+                    >
+                      <span className="doc-title">{doc.title}</span>
+                      {snippet && <span className="snippet">{renderSnippet(snippet)}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <ul>
+                {documents.map((doc) => (
+                  <li key={doc.id}>
+                    <button
+                      className={doc.id === activeId ? "active" : ""}
+                      onClick={() => setActiveId(doc.id)}
+                    >
+                      <span className="doc-title">{doc.title}</span>
+                      <span className="doc-meta">
+                        {doc.folder && `${doc.folder} · `}
+                        {new Date(doc.updatedAt).toLocaleString()}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+                {listTruncated && (
+                  <li className="doc-meta">Only the most recently updated documents are sorted this way</li>
+                )}
+              </ul>
+            )}
           </aside>
         )}
         <main className="main-panel">
           <section className="editor">
+            {conflict && (
+              <div className="conflict-banner">
+                <span>
+                  Saved elsewhere at {new Date(conflict.current.updatedAt).toLocaleString()}. Your
+                  changes have not been saved.
+                </span>
+                <div className="conflict-actions">
+                  <button onClick={handleMerge}>Merge changes</button>
+                  <button onClick={handleKeepMine}>Keep mine</button>
+                  <button onClick={handleUseServer}>Use server version</button>
+                </div>
+                {conflictDiff && <pre className="diff">{conflictDiff}</pre>}
+              </div>
+            )}
             {metadata && viewVersionContent !== null && (
               <div className="version-banner">
                 <span>
                   Viewing version saved {new Date(
-                    metadata.versions.find((v) => v.versionId === selectedVersion)!.createdAt
+                    history.find((v) => v.versionId === selectedVersion)!.createdAt
                   ).toLocaleString()}
                 </span>
                 <button
@@ -535,36 +1567,159 @@ export function EditorPage() {
                 </button>
               </div>
             )}
-            <Suspense fallback={<div className="editor-loading">Loading editor…</div>}>
-              <CodeEditor
-                height="60vh"
-                language={language}
-                value={viewVersionContent ?? content}
-                onChange={(value) => {
-                  if (viewVersionContent !== null) return;
-                  setContent(value ?? "");
-                }}
-                readOnly={viewVersionContent !== null}
-              />
-            </Suspense>
+            {metadata && unrevealedId === metadata.id ? (
+              <div className="burn-notice">
+                <p>This document is deleted after its last read. Opening it uses one of the remaining reads.</p>
+                <button type="button" onClick={() => loadDocument(metadata.id, true)}>
+                  Reveal
+                </button>
+              </div>
+            ) : headContentType && !isTextContentType(headContentType) ? (
+              <div className="binary-preview">
+                <p>
+                  This document is a binary file ({headContentType}) and cannot be edited as text.
+                </p>
+                <a href={`/view/${metadata!.id}`} target="_blank" rel="noreferrer">
+                  Open in viewer
+                </a>
+              </div>
+            ) : (
+              <Suspense fallback={<div className="editor-loading">Loading editor…</div>}>
+                <CodeEditor
+                  height="60vh"
+                  language={language}
+                  value={viewVersionContent ?? content}
+                  onChange={(value) => {
+                    if (viewVersionContent !== null) return;
+                    setContent(value ?? "");
+                  }}
+                  readOnly={viewVersionContent !== null}
+                />
+              </Suspense>
+            )}
           </section>
           <section className="sidebar">
+            <div className="file-tabs">
+              <h2>Files</h2>
+              <div className="tabs">
+                {files.map((file, index) => (
+                  <button
+                    key={file.name || index}
+                    className={index === activeFile ? "active" : ""}
+                    onClick={() => setActiveFile(index)}
+                    onDoubleClick={() => handleRenameFile(index)}
+                    title={isMultiFile ? "Double-click to rename" : undefined}
+                  >
+                    {isMultiFile ? file.name : title.trim() || "Untitled"}
+                  </button>
+                ))}
+                <button onClick={handleAddFile}>+ Add file</button>
+              </div>
+              {files.length > 1 && (
+                <button className="remove-file" onClick={() => handleRemoveFile(activeFile)}>
+                  Remove {activeFileName}
+                </button>
+              )}
+            </div>
             {metadata ? (
               <>
                 <h2>Versions</h2>
                 <ul className="versions">
-                  {metadata.versions.map((version, index) => (
-                    <li key={version.versionId}>
+                  {history.map((version, index) => (
+                    <li key={version.versionId} className="version-entry">
                       <button
                         className={version.versionId === selectedVersion ? "active" : ""}
                         onClick={() => setSelectedVersion(version.versionId)}
                       >
                         <span>{new Date(version.createdAt).toLocaleString()}</span>
-                        <span>{(version.size / 1024).toFixed(1)} KB{index === 0 ? " · latest" : ""}</span>
+                        {version.title && (
+                          <span className="version-title">
+                            {version.title}
+                            {history[index + 1]?.title &&
+                            history[index + 1].title !== version.title
+                              ? ` · renamed from ${history[index + 1].title}`
+                              : ""}
+                          </span>
+                        )}
+                        {version.restoredFrom && (
+                          <span className="version-title">
+                            restored from{" "}
+                            {(() => {
+                              const source = history.find((v) => v.versionId === version.restoredFrom);
+                              return source ? new Date(source.createdAt).toLocaleString() : "an earlier version";
+                            })()}
+                          </span>
+                        )}
+                        {version.message && <span className="version-message">{version.message}</span>}
+                        <span>
+                          {(version.size / 1024).toFixed(1)} KB{index === 0 ? " · latest" : ""}
+                          {version.author ? ` · ${version.author}` : ""}
+                        </span>
+                        {Object.entries(metadata.labels ?? {})
+                          .filter(([, labelled]) => labelled === version.versionId)
+                          .map(([label]) => (
+                            <span key={label} className="version-label">
+                              {label}
+                            </span>
+                          ))}
                       </button>
+                      {version.versionId === selectedVersion &&
+                        authToken &&
+                        metadata.role !== "viewer" &&
+                        (metadata.isOwner || metadata.role) && (
+                          <button
+                            className="restore-version"
+                            onClick={() => {
+                              const label = window.prompt("Label for this version, e.g. prod or v1.2")?.trim();
+                              if (!label) return;
+                              // Naming a label this version already has takes it off again.
+                              if (metadata.labels?.[label] === version.versionId) {
+                                if (window.confirm(`Remove the ${label} label?`)) handleLabel(label, null);
+                                return;
+                              }
+                              handleLabel(label, version.versionId);
+                            }}
+                          >
+                            Label
+                          </button>
+                        )}
+                      {index > 0 &&
+                        version.versionId === selectedVersion &&
+                        authToken &&
+                        metadata.role !== "viewer" &&
+                        (metadata.isOwner || metadata.role) && (
+                          <button className="restore-version" onClick={() => handleRestore(version.versionId)}>
+                            Restore
+                          </button>
+                        )}
                     </li>
                   ))}
                 </ul>
+                {history.length < metadata.versionCount && (
+                  <button className="load-older" onClick={handleLoadOlderVersions}>
+                    Load older versions ({metadata.versionCount - history.length} more)
+                  </button>
+                )}
+                {authToken && metadata.isOwner && (
+                  <label className="retention-select">
+                    Keep history
+                    <select
+                      value={retentionValue(metadata.retention)}
+                      onChange={(event) => handleRetention(event.target.value)}
+                    >
+                      {RETENTION_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                      {retentionValue(metadata.retention) === "custom" && (
+                        <option value="custom" disabled>
+                          Custom
+                        </option>
+                      )}
+                    </select>
+                  </label>
+                )}
                 <div className="links">
                   {currentRawUrl && (
                     <>
@@ -586,6 +1741,22 @@ export function EditorPage() {
                       </button>
                     </>
                   )}
+                  {metadata.encrypted && encryptionKey && (
+                    <button
+                      type="button"
+                      onClick={async () => {
+                        try {
+                          const url = new URL(`/view/${metadata.id}`, window.location.origin);
+                          await navigator.clipboard.writeText(viewUrlWithKey(url.toString(), encryptionKey));
+                          setStatus("Copied view link with key");
+                        } catch (error) {
+                          setStatus("Copy failed");
+                        }
+                      }}
+                    >
+                      Copy view link
+                    </button>
+                  )}
                   {latestRawUrl && (
                     <>
                       <a href={latestRawUrl} target="_blank" rel="noreferrer">
@@ -608,6 +1779,15 @@ export function EditorPage() {
                   )}
                 </div>
                 {diffText && <pre className="diff">{diffText}</pre>}
+                {metadata.isOwner && authToken && (
+                  <SharesPanel
+                    documentId={metadata.id}
+                    authToken={authToken}
+                    selectedVersionId={selectedVersion}
+                    linkFragment={encryptionKey ? viewUrlWithKey("", encryptionKey) : undefined}
+                    onStatus={setStatus}
+                  />
+                )}
               </>
             ) : (
               <p>Select or save a document to see versions.</p>
@@ -1,12 +1,69 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Editor from "@monaco-editor/react";
 import { difference } from "../utils/diff";
-import type { DocumentView } from "../../../src/types";
+import { decryptText, decryptVersion, keyFromFragment } from "../utils/crypto";
+import { isImageContentType, isTextContentType } from "../../../src/mime";
+import type {
+  DocumentFile,
+  DocumentVersion,
+  DocumentView,
+  ForkDocumentRequest,
+  ShareAccess,
+  SharedDocumentResponse,
+  UnlockDocumentResponse,
+  VersionMetadata,
+} from "../../../src/types";
 
 interface Props {
-  params: { id: string };
+  params: { id?: string; token?: string };
 }
 
+interface RawAccess {
+  rawAccessKey?: string;
+  shareToken?: string | null;
+  unlockToken?: string | null;
+}
+
+function unlockStorageKey(documentId: string): string {
+  return `txt-hosted-unlock:${documentId}`;
+}
+
+function withUnlock(path: string, unlockToken: string | null): string {
+  if (!unlockToken) return path;
+  const url = new URL(path, window.location.origin);
+  url.searchParams.set("unlock", unlockToken);
+  return url.toString();
+}
+
+function buildRawUrl(
+  documentId: string,
+  versionId: string,
+  { rawAccessKey, shareToken, unlockToken }: RawAccess,
+  filename?: string | null,
+  download = false
+): string {
+  const path = filename
+    ? `/api/documents/${documentId}/raw/${encodeURIComponent(filename)}`
+    : `/api/documents/${documentId}/raw`;
+  const url = new URL(path, window.location.origin);
+  url.searchParams.set("versionId", versionId);
+  if (download) {
+    url.searchParams.set("download", "1");
+  }
+  if (rawAccessKey) {
+    url.searchParams.set("rawKey", rawAccessKey);
+  }
+  if (shareToken) {
+    url.searchParams.set("token", shareToken);
+  }
+  if (unlockToken) {
+    url.searchParams.set("unlock", unlockToken);
+  }
+  return url.toString();
+}
+
+const MISSING_KEY_ERROR = "This document is encrypted. Open it with the full link, including the #key part.";
+
 export function ViewPage({ params }: Props) {
   const [metadata, setMetadata] = useState<DocumentView | null>(null);
   const [content, setContent] = useState("");
@@ -14,30 +71,113 @@ export function ViewPage({ params }: Props) {
   const [diffText, setDiffText] = useState("");
   const [error, setError] = useState("");
   const [versionToken, setVersionToken] = useState<string | null>(null);
+  const [shareAccess, setShareAccess] = useState<ShareAccess | null>(null);
+  const [files, setFiles] = useState<DocumentFile[] | null>(null);
+  const [activeFile, setActiveFile] = useState<string | null>(null);
+  const [unlockToken, setUnlockToken] = useState<string | null>(() =>
+    params.id ? sessionStorage.getItem(unlockStorageKey(params.id)) : null
+  );
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [revealed, setRevealed] = useState(false);
+  // The fragment never reaches the server, so neither does the key.
+  const [encryptionKey] = useState(() => keyFromFragment(window.location.hash));
+
+  const documentId = metadata?.id ?? params.id ?? null;
+  // Every content fetch by a non-owner spends one of a burn-after-read document's reads.
+  const isBurnable = Boolean(metadata?.maxReads && !metadata.isOwner && !metadata.role);
+  const canReadContent = shareAccess !== "metadata" && (!isBurnable || revealed);
+  const displayedContent = files
+    ? files.find((file) => file.name === activeFile)?.content ?? ""
+    : content;
+  const contentTypeOf = useCallback(
+    (version?: VersionMetadata) =>
+      version?.files
+        ? version.files.find((file) => file.name === activeFile)?.contentType
+        : version?.contentType,
+    [activeFile]
+  );
 
   useEffect(() => {
     const load = async () => {
       try {
+        if (params.token) {
+          const reveal = revealed ? "&reveal=1" : "";
+          const res = await fetch(`/api/share?token=${encodeURIComponent(params.token)}${reveal}`);
+          if (!res.ok) {
+            setError("This share link is invalid or has expired");
+            return;
+          }
+          const shared: SharedDocumentResponse = await res.json();
+          const data = shared.document;
+          setShareAccess(shared.access);
+          setVersionToken(params.token);
+          setMetadata(data);
+          if (data.maxReads && !revealed) {
+            return;
+          }
+          if (data.encrypted && shared.content !== undefined) {
+            if (!encryptionKey) {
+              setError(MISSING_KEY_ERROR);
+              return;
+            }
+            const version = await decryptVersion(
+              { metadata: data.versions[0], content: shared.content, files: shared.files },
+              encryptionKey
+            );
+            shared.content = version.content;
+            shared.files = version.files;
+          }
+          setContent(shared.content ?? "");
+          setFiles(shared.files ?? null);
+          setActiveFile(shared.files?.[0]?.name ?? null);
+          setSelectedVersion(data.versions[0]?.versionId ?? null);
+          return;
+        }
         const token = localStorage.getItem("txt-hosted-token");
-        const res = await fetch(`/api/documents/${params.id}`, {
+        const res = await fetch(withUnlock(`/api/documents/${params.id}`, unlockToken), {
           headers: token ? { "x-user-token": token } : undefined,
         });
+        if (res.status === 401) {
+          const body = await res.json().catch(() => ({}));
+          if (body.passwordRequired) {
+            setNeedsPassword(true);
+            return;
+          }
+        }
         if (!res.ok) {
           setError("Unable to load document");
           return;
         }
-        const data = await res.json();
+        setNeedsPassword(false);
+        const data: DocumentView = await res.json();
         setMetadata(data);
-        if (data.versions.length) {
-          const url = new URL(`/api/documents/${params.id}/raw`, window.location.origin);
-          url.searchParams.set("versionId", data.versions[0].versionId);
-          if (data.rawAccessKey) {
-            url.searchParams.set("rawKey", data.rawAccessKey);
-          }
+        if (data.maxReads && !data.isOwner && !data.role && !revealed) {
+          return;
+        }
+        if (data.encrypted && !encryptionKey) {
+          setError(MISSING_KEY_ERROR);
+          return;
+        }
+        const key = data.encrypted ? encryptionKey : null;
+        if (data.versions[0]?.files) {
+          const versionPath = `/api/documents/${data.id}/version?versionId=${data.versions[0].versionId}`;
+          const versionRes = await fetch(withUnlock(versionPath, unlockToken), {
+            headers: token ? { "x-user-token": token } : undefined,
+          });
+          const stored: DocumentVersion = await versionRes.json();
+          const version = key ? await decryptVersion(stored, key) : stored;
+          setFiles(version.files ?? null);
+          setActiveFile(version.files?.[0]?.name ?? null);
+        } else if (data.versions.length && isTextContentType(data.versions[0].contentType)) {
+          const url = buildRawUrl(data.id, data.versions[0].versionId, {
+            rawAccessKey: data.rawAccessKey,
+            unlockToken,
+          });
           const raw = await fetch(url, {
             headers: token ? { "x-user-token": token } : undefined,
           }).then((r) => r.text());
-          setContent(raw);
+          setContent(key ? await decryptText(raw, key) : raw);
         } else {
           setContent("");
         }
@@ -46,82 +186,279 @@ export function ViewPage({ params }: Props) {
         }
       } catch (err) {
         console.error(err);
-        setError("Unexpected error");
+        setError(err instanceof DOMException ? "Unable to decrypt: the key in this link is wrong" : "Unexpected error");
       }
     };
     load();
-  }, [params.id]);
+  }, [encryptionKey, params.id, params.token, revealed, unlockToken]);
+
+  const handleUnlock = useCallback(async () => {
+    if (!params.id || !password) return;
+    try {
+      const res = await fetch(`/api/documents/${params.id}/unlock`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      if (res.status === 401) {
+        alert("Incorrect password");
+        return;
+      }
+      if (!res.ok) throw new Error("unlock failed");
+      const data: UnlockDocumentResponse = await res.json();
+      sessionStorage.setItem(unlockStorageKey(params.id), data.token);
+      setPassword("");
+      setUnlockToken(data.token);
+    } catch (err) {
+      setError("Unable to unlock document");
+    }
+  }, [params.id, password]);
 
   useEffect(() => {
-    if (!metadata || !selectedVersion) {
+    if (!metadata || !selectedVersion || !canReadContent || isBurnable || !documentId) {
       setDiffText("");
       return;
     }
     const version = metadata.versions.find((v) => v.versionId === selectedVersion);
     if (!version) return;
+    if (
+      version.versionId === metadata.versions[0]?.versionId ||
+      !isTextContentType(contentTypeOf(version)) ||
+      !isTextContentType(contentTypeOf(metadata.versions[0]))
+    ) {
+      setDiffText("");
+      return;
+    }
     const loadDiff = async () => {
-      const token = localStorage.getItem("txt-hosted-token");
-      const url = new URL(`/api/documents/${params.id}/raw`, window.location.origin);
-      url.searchParams.set("versionId", version.versionId);
-      if (metadata.rawAccessKey) {
-        url.searchParams.set("rawKey", metadata.rawAccessKey);
+      if (!metadata.encrypted) {
+        const url = new URL(`/api/documents/${documentId}/diff`, window.location.origin);
+        url.searchParams.set("from", version.versionId);
+        url.searchParams.set("to", metadata.versions[0].versionId);
+        url.searchParams.set("format", "patch");
+        if (version.files && activeFile) url.searchParams.set("file", activeFile);
+        if (metadata.rawAccessKey) url.searchParams.set("rawKey", metadata.rawAccessKey);
+        if (versionToken) url.searchParams.set("token", versionToken);
+        if (unlockToken) url.searchParams.set("unlock", unlockToken);
+        const token = localStorage.getItem("txt-hosted-token");
+        const res = await fetch(url, {
+          headers: token ? { "x-user-token": token } : undefined,
+        });
+        setDiffText(res.ok ? await res.text() : "");
+        return;
       }
+      // Only the browser holds the key, so encrypted versions are compared here.
+      let selected: string;
       if (versionToken) {
+        const url = new URL(`/api/documents/${documentId}/version`, window.location.origin);
+        url.searchParams.set("versionId", version.versionId);
         url.searchParams.set("token", versionToken);
+        const res = await fetch(url);
+        if (!res.ok) {
+          setDiffText("");
+          return;
+        }
+        const stored: DocumentVersion = await res.json();
+        const data = metadata.encrypted && encryptionKey ? await decryptVersion(stored, encryptionKey) : stored;
+        selected = data.files
+          ? data.files.find((file) => file.name === activeFile)?.content ?? ""
+          : data.content;
+      } else {
+        const token = localStorage.getItem("txt-hosted-token");
+        const url = buildRawUrl(
+          documentId,
+          version.versionId,
+          { rawAccessKey: metadata.rawAccessKey, unlockToken },
+          version.files ? activeFile : null
+        );
+        const res = await fetch(url, {
+          headers: token ? { "x-user-token": token } : undefined,
+        });
+        const raw = res.ok ? await res.text() : "";
+        selected = raw && metadata.encrypted && encryptionKey ? await decryptText(raw, encryptionKey) : raw;
       }
-      const selected = await fetch(url, {
-        headers: token ? { "x-user-token": token } : undefined,
-      }).then((r) => r.text());
-      setDiffText(difference(selected, content));
+      setDiffText(difference(selected, displayedContent));
     };
     loadDiff();
-  }, [content, metadata, params.id, selectedVersion, versionToken]);
+  }, [activeFile, canReadContent, contentTypeOf, displayedContent, documentId, encryptionKey, isBurnable, metadata, selectedVersion, unlockToken, versionToken]);
 
   const latestVersionId = metadata?.versions[0]?.versionId ?? null;
 
+  const selectedMetadata = metadata?.versions.find((v) => v.versionId === selectedVersion) ?? null;
+  const selectedFile = selectedMetadata?.files ? activeFile : null;
+  const selectedContentType = contentTypeOf(selectedMetadata ?? undefined);
+  const isBinary = Boolean(selectedMetadata && !isTextContentType(selectedContentType));
+
   const currentRawUrl = useMemo(() => {
-    if (!metadata || !selectedVersion) return null;
-    const url = new URL(`/api/documents/${params.id}/raw`, window.location.origin);
-    url.searchParams.set("versionId", selectedVersion);
-    if (metadata.rawAccessKey) {
-      url.searchParams.set("rawKey", metadata.rawAccessKey);
+    if (!metadata || !selectedVersion || !canReadContent || isBurnable || metadata.encrypted || !documentId) {
+      return null;
     }
-    return url.toString();
-  }, [metadata, params.id, selectedVersion]);
+    return buildRawUrl(
+      documentId,
+      selectedVersion,
+      { rawAccessKey: metadata.rawAccessKey, shareToken: versionToken, unlockToken },
+      selectedFile
+    );
+  }, [canReadContent, documentId, isBurnable, metadata, selectedFile, selectedVersion, unlockToken, versionToken]);
 
+  const latestFile = metadata?.versions[0]?.files ? activeFile : null;
   const latestRawUrl = useMemo(() => {
-    if (!metadata || !latestVersionId) return null;
-    const url = new URL(`/api/documents/${params.id}/raw`, window.location.origin);
-    url.searchParams.set("versionId", latestVersionId);
-    if (metadata.rawAccessKey) {
-      url.searchParams.set("rawKey", metadata.rawAccessKey);
+    if (!metadata || !latestVersionId || !canReadContent || isBurnable || metadata.encrypted || !documentId) {
+      return null;
+    }
+    return buildRawUrl(
+      documentId,
+      latestVersionId,
+      { rawAccessKey: metadata.rawAccessKey, shareToken: versionToken, unlockToken },
+      latestFile
+    );
+  }, [canReadContent, documentId, isBurnable, latestFile, metadata, latestVersionId, unlockToken, versionToken]);
+
+  const downloadUrl = useMemo(() => {
+    if (!metadata || !selectedVersion || !canReadContent || isBurnable || metadata.encrypted || !documentId) {
+      return null;
+    }
+    return buildRawUrl(
+      documentId,
+      selectedVersion,
+      { rawAccessKey: metadata.rawAccessKey, shareToken: versionToken, unlockToken },
+      selectedFile,
+      true
+    );
+  }, [canReadContent, documentId, isBurnable, metadata, selectedFile, selectedVersion, unlockToken, versionToken]);
+
+  const handleFork = useCallback(async () => {
+    if (!documentId || !selectedVersion) return;
+    const url = new URL(`/api/documents/${documentId}/fork`, window.location.origin);
+    if (versionToken) url.searchParams.set("token", versionToken);
+    if (unlockToken) url.searchParams.set("unlock", unlockToken);
+    const token = localStorage.getItem("txt-hosted-token");
+    const body: ForkDocumentRequest = { versionId: selectedVersion };
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...(token ? { "x-user-token": token } : {}) },
+        body: JSON.stringify(body),
+      });
+      if (res.status === 429) {
+        alert("Too many requests, try again later");
+        return;
+      }
+      if (!res.ok) throw new Error("fork failed");
+      const forked: { metadata: DocumentView } = await res.json();
+      // Encrypted forks hold the same ciphertext, so the key in the fragment still opens them.
+      window.location.assign(`/view/${forked.metadata.id}${window.location.hash}`);
+    } catch (error) {
+      alert("Fork failed");
     }
-    return url.toString();
-  }, [metadata, latestVersionId, params.id]);
+  }, [documentId, selectedVersion, unlockToken, versionToken]);
 
   if (error) return <p>{error}</p>;
+  if (needsPassword) {
+    return (
+      <form
+        className="unlock-form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleUnlock();
+        }}
+      >
+        <p>This document is password protected.</p>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoFocus
+        />
+        <button type="submit">Unlock</button>
+      </form>
+    );
+  }
   if (!metadata) return <p>Loading...</p>;
 
   return (
     <div className="layout">
       <header>
         <h1>{metadata.title}</h1>
+        {versionToken && <span className="share-badge">Shared link</span>}
+        {metadata.encrypted && <span className="share-badge">End-to-end encrypted</span>}
+        {metadata.forkedFrom && (
+          <span className="doc-meta">
+            Forked from <a href={`/view/${metadata.forkedFrom.documentId}`}>{metadata.forkedFrom.documentId}</a>
+          </span>
+        )}
+        {Boolean(metadata.forkCount) && (
+          <span className="doc-meta">
+            {metadata.forkCount} {metadata.forkCount === 1 ? "fork" : "forks"}
+          </span>
+        )}
+        {(metadata.expiresAt || metadata.maxReads) && (
+          <span className="doc-meta expiry-note">
+            {metadata.expiresAt && `Expires ${new Date(metadata.expiresAt).toLocaleString()}`}
+            {metadata.expiresAt && metadata.maxReads && " · "}
+            {metadata.maxReads &&
+              `${metadata.maxReads - (metadata.reads ?? 0) - (revealed ? 1 : 0)} of ${metadata.maxReads} reads left`}
+          </span>
+        )}
       </header>
       <main>
         <section className="editor">
-          <Editor
-            height="60vh"
-            language="plaintext"
-            value={content}
-            options={{ readOnly: true, minimap: { enabled: false }, wordWrap: "on" }}
-          />
+          {isBurnable && !revealed && shareAccess !== "metadata" ? (
+            <div className="burn-notice">
+              <p>This document is deleted after its last read. Opening it uses one of the remaining reads.</p>
+              <button type="button" onClick={() => setRevealed(true)}>
+                Reveal
+              </button>
+            </div>
+          ) : canReadContent && isBinary ? (
+            <div className="binary-preview">
+              {isImageContentType(selectedContentType) && currentRawUrl && (
+                <img src={currentRawUrl} alt={selectedFile ?? selectedMetadata?.title ?? metadata.title} />
+              )}
+              <p className="doc-meta">
+                {selectedContentType} · {Math.round((selectedMetadata?.size ?? 0) / 1024)} KB
+              </p>
+              {downloadUrl && (
+                <a className="download" href={downloadUrl} download>
+                  Download
+                </a>
+              )}
+            </div>
+          ) : canReadContent ? (
+            <Editor
+              height="60vh"
+              language="plaintext"
+              value={displayedContent}
+              options={{ readOnly: true, minimap: { enabled: false }, wordWrap: "on" }}
+            />
+          ) : (
+            <p>This share link only grants access to the document details.</p>
+          )}
         </section>
         <section className="sidebar">
+          {files && (
+            <div className="file-tabs">
+              <h2>Files</h2>
+              <div className="tabs">
+                {files.map((file) => (
+                  <button
+                    key={file.name}
+                    type="button"
+                    className={file.name === activeFile ? "active" : ""}
+                    onClick={() => setActiveFile(file.name)}
+                  >
+                    {file.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
           <h2>Versions</h2>
           <ul>
             {metadata.versions.map((version) => (
               <li key={version.versionId}>
                 <button type="button" onClick={() => setSelectedVersion(version.versionId)}>
+                  {version.title ? `${version.title} · ` : ""}
                   {new Date(version.createdAt).toLocaleString()} ({
                     Math.round(version.size / 1024)
                   }
@@ -130,6 +467,11 @@ export function ViewPage({ params }: Props) {
               </li>
             ))}
           </ul>
+          {metadata.versionCount > metadata.versions.length && (
+            <p className="version-count">
+              Showing the newest {metadata.versions.length} of {metadata.versionCount} versions.
+            </p>
+          )}
           <div className="links">
             {currentRawUrl && (
               <>
@@ -171,6 +513,11 @@ export function ViewPage({ params }: Props) {
                 </button>
               </>
             )}
+            {canReadContent && !metadata.expiresAt && !metadata.maxReads && selectedVersion && (
+              <button type="button" onClick={handleFork}>
+                Fork this version
+              </button>
+            )}
           </div>
           {diffText && <pre className="diff">{diffText}</pre>}
         </section>
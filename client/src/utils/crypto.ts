@@ -0,0 +1,101 @@
+import type { DocumentVersion } from "../../../src/types";
+
+const IV_LENGTH = 12;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function keyStorageKey(documentId: string): string {
+  return `txt-hosted-key:${documentId}`;
+}
+
+async function importKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", fromBase64Url(key), "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/** Creates a random 256-bit AES-GCM key, encoded for use in a URL fragment. */
+export async function createDocumentKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+}
+
+/** Encrypts text as `<iv>.<ciphertext>`, both base64url encoded. */
+export async function encryptText(text: string, key: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await importKey(key),
+    encoder.encode(text)
+  );
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/** Throws when the key is wrong or the ciphertext was tampered with. */
+export async function decryptText(payload: string, key: string): Promise<string> {
+  const [iv, ciphertext] = payload.split(".");
+  if (!iv || !ciphertext) throw new Error("invalid ciphertext");
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64Url(iv) },
+    await importKey(key),
+    fromBase64Url(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+export async function decryptVersion(version: DocumentVersion, key: string): Promise<DocumentVersion> {
+  if (!version.files) return { ...version, content: await decryptText(version.content, key) };
+  const files = await Promise.all(
+    version.files.map(async (file) => ({ ...file, content: await decryptText(file.content, key) }))
+  );
+  return { ...version, content: files[0]?.content ?? "", files };
+}
+
+/** Encrypts the content or every file of a create or update payload. */
+export async function encryptPayload<T extends { content?: string; files?: Array<{ name: string; content: string }> }>(
+  payload: T,
+  key: string
+): Promise<T> {
+  if (payload.files) {
+    const files = await Promise.all(
+      payload.files.map(async (file) => ({ ...file, content: await encryptText(file.content, key) }))
+    );
+    return { ...payload, files };
+  }
+  return { ...payload, content: await encryptText(payload.content ?? "", key) };
+}
+
+/** Reads the key from a `#key=...` fragment, a pasted view link or the bare key. */
+export function keyFromFragment(value: string): string | null {
+  const fragment = value.includes("#") ? value.slice(value.indexOf("#") + 1) : value.trim();
+  const key = new URLSearchParams(fragment).get("key") ?? fragment;
+  return /^[A-Za-z0-9_-]{43}$/.test(key) ? key : null;
+}
+
+export function viewUrlWithKey(path: string, key: string): string {
+  return `${path}#key=${key}`;
+}
+
+/** Keys only live in the author's browser; the server never sees them. */
+export function saveDocumentKey(documentId: string, key: string) {
+  localStorage.setItem(keyStorageKey(documentId), key);
+}
+
+export function loadDocumentKey(documentId: string): string | null {
+  return localStorage.getItem(keyStorageKey(documentId));
+}
@@ -1,7 +1,116 @@
-import { createTwoFilesPatch } from "diff";
+import { createTwoFilesPatch, diffArrays } from "diff";
 
 export function difference(a: string, b: string): string {
   return createTwoFilesPatch("selected", "current", a, b, undefined, undefined, {
     context: 3,
   });
 }
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+interface Change {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function withTrailingNewline(lines: string[]): string[] {
+  if (!lines.length || lines[lines.length - 1].endsWith("\n")) return lines;
+  return [...lines.slice(0, -1), `${lines[lines.length - 1]}\n`];
+}
+
+function collectChanges(base: string[], other: string[]): Change[] {
+  const changes: Change[] = [];
+  let index = 0;
+  let current: Change | null = null;
+  for (const part of diffArrays(base, other)) {
+    if (part.added) {
+      current ??= { start: index, end: index, lines: [] };
+      current.lines.push(...part.value);
+    } else if (part.removed) {
+      current ??= { start: index, end: index, lines: [] };
+      index += part.value.length;
+      current.end = index;
+    } else {
+      if (current) changes.push(current);
+      current = null;
+      index += part.value.length;
+    }
+  }
+  if (current) changes.push(current);
+  return changes;
+}
+
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    result.push(...base.slice(position, change.start), ...change.lines);
+    position = change.end;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+}
+
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const ourChanges = collectChanges(baseLines, splitLines(ours));
+  const theirChanges = collectChanges(baseLines, splitLines(theirs));
+  const output: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourChanges.length || j < theirChanges.length) {
+    const takeOurs =
+      j >= theirChanges.length || (i < ourChanges.length && ourChanges[i].start <= theirChanges[j].start);
+    const first = takeOurs ? ourChanges[i++] : theirChanges[j++];
+    const ourCluster = takeOurs ? [first] : [];
+    const theirCluster = takeOurs ? [] : [first];
+    const start = first.start;
+    let end = first.end;
+
+    for (;;) {
+      if (i < ourChanges.length && ourChanges[i].start <= end) {
+        end = Math.max(end, ourChanges[i].end);
+        ourCluster.push(ourChanges[i++]);
+      } else if (j < theirChanges.length && theirChanges[j].start <= end) {
+        end = Math.max(end, theirChanges[j].end);
+        theirCluster.push(theirChanges[j++]);
+      } else {
+        break;
+      }
+    }
+
+    output.push(...baseLines.slice(position, start));
+    const ourLines = applyChanges(baseLines, start, end, ourCluster);
+    const theirLines = applyChanges(baseLines, start, end, theirCluster);
+
+    if (!theirCluster.length || ourLines.join("") === theirLines.join("")) {
+      output.push(...ourLines);
+    } else if (!ourCluster.length) {
+      output.push(...theirLines);
+    } else {
+      conflicts += 1;
+      output.push(
+        "<<<<<<< yours\n",
+        ...withTrailingNewline(ourLines),
+        "=======\n",
+        ...withTrailingNewline(theirLines),
+        ">>>>>>> server\n"
+      );
+    }
+    position = end;
+  }
+
+  output.push(...baseLines.slice(position));
+  return { content: output.join(""), conflicts };
+}
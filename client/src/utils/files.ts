@@ -0,0 +1,48 @@
+import { mergeThreeWay } from "./diff";
+import type { DocumentVersion } from "../../../src/types";
+
+export interface EditorFile {
+  name: string;
+  content: string;
+  contentType?: string;
+}
+
+export function toEditorFiles(version: DocumentVersion, fallbackName = ""): EditorFile[] {
+  if (!version.files) {
+    return [{ name: fallbackName, content: version.content, contentType: version.metadata.contentType }];
+  }
+  return version.files.map((file) => ({
+    name: file.name,
+    content: file.content,
+    contentType: file.contentType,
+  }));
+}
+
+export function filesEqual(a: EditorFile[], b: EditorFile[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((file, i) => file.name === b[i].name && file.content === b[i].content)
+  );
+}
+
+export function mergeFiles(
+  base: EditorFile[],
+  ours: EditorFile[],
+  theirs: EditorFile[]
+): { files: EditorFile[]; conflicts: number } {
+  const find = (files: EditorFile[], name: string) => files.find((file) => file.name === name);
+  let conflicts = 0;
+  const files = ours.map((file) => {
+    const server = find(theirs, file.name);
+    if (!server) return file;
+    const result = mergeThreeWay(find(base, file.name)?.content ?? "", file.content, server.content);
+    conflicts += result.conflicts;
+    return { ...file, content: result.content };
+  });
+  for (const server of theirs) {
+    if (!find(ours, server.name) && !find(base, server.name)) {
+      files.push(server);
+    }
+  }
+  return { files, conflicts };
+}
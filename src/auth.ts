@@ -1,28 +1,128 @@
-import { ShareTokenPayload } from "./types";
+import { ShareRecord, ShareTokenPayload } from "./types";
 
 const encoder = new TextEncoder();
+const PASSWORD_ITERATIONS = 100_000;
+
+export interface UnlockTokenPayload {
+  documentId: string;
+  expiresAt: number;
+}
+
+export interface ShareRegistry {
+  getShare(documentId: string, shareId: string): Promise<ShareRecord | null>;
+}
 
 export async function createShareToken(payload: ShareTokenPayload, secret: string): Promise<string> {
   const data = JSON.stringify(payload);
   const signature = await sign(data, secret);
-  return btoa(`${data}.${signature}`);
+  return toBase64Url(`${data}.${signature}`);
 }
 
-export async function verifyShareToken(token: string, secret: string): Promise<ShareTokenPayload | null> {
+export async function verifyShareToken(
+  token: string,
+  secret: string,
+  registry: ShareRegistry
+): Promise<ShareTokenPayload | null> {
   try {
-    const decoded = atob(token);
-    const [data, signature] = decoded.split(".");
-    if (!data || !signature) return null;
+    const decoded = fromBase64Url(token);
+    const separator = decoded.lastIndexOf(".");
+    if (separator <= 0) return null;
+    const data = decoded.slice(0, separator);
+    const signature = decoded.slice(separator + 1);
+    if (!signature) return null;
     const expected = await sign(data, secret);
     if (!timingSafeEqual(signature, expected)) return null;
     const payload = JSON.parse(data) as ShareTokenPayload;
+    if (typeof payload.documentId !== "string" || typeof payload.shareId !== "string") return null;
     if (payload.expiresAt < Date.now()) return null;
-    return payload;
+    const record = await registry.getShare(payload.documentId, payload.shareId);
+    if (!record || record.revoked) return null;
+    if (record.expiresAt < Date.now()) return null;
+    if (record.maxViews && record.views >= record.maxViews) return null;
+    return {
+      documentId: record.documentId,
+      shareId: record.id,
+      expiresAt: record.expiresAt,
+      access: record.access,
+      versionId: record.versionId,
+    };
   } catch (error) {
     return null;
   }
 }
 
+export async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(secret));
+  return toHex(digest);
+}
+
+export function createPasswordSalt(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
+export async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations: PASSWORD_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+export async function verifyPassword(password: string, salt: string, hash: string): Promise<boolean> {
+  return timingSafeEqual(await hashPassword(password, salt), hash);
+}
+
+/**
+ * Unlock tokens are signed with the document's password salt as well, so
+ * changing the password invalidates every token issued for the old one.
+ */
+export async function createUnlockToken(
+  payload: UnlockTokenPayload,
+  secret: string,
+  salt: string
+): Promise<string> {
+  const data = JSON.stringify(payload);
+  const signature = await sign(data, `${secret}:${salt}`);
+  return toBase64Url(`${data}.${signature}`);
+}
+
+export async function verifyUnlockToken(
+  token: string,
+  documentId: string,
+  secret: string,
+  salt: string
+): Promise<boolean> {
+  try {
+    const decoded = fromBase64Url(token);
+    const separator = decoded.lastIndexOf(".");
+    if (separator <= 0) return false;
+    const data = decoded.slice(0, separator);
+    const expected = await sign(data, `${secret}:${salt}`);
+    if (!timingSafeEqual(decoded.slice(separator + 1), expected)) return false;
+    const payload = JSON.parse(data) as UnlockTokenPayload;
+    return payload.documentId === documentId && payload.expiresAt >= Date.now();
+  } catch (error) {
+    return false;
+  }
+}
+
+export function shareAllowsVersion(payload: ShareTokenPayload, versionId: string): boolean {
+  return !payload.versionId || payload.versionId === versionId;
+}
+
+function toBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, "="));
+}
+
 async function sign(data: string, secret: string): Promise<string> {
   const key = await crypto.subtle.importKey(
     "raw",
@@ -32,7 +132,11 @@ async function sign(data: string, secret: string): Promise<string> {
     ["sign"]
   );
   const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
-  return Array.from(new Uint8Array(signature))
+  return toHex(signature);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 }
@@ -0,0 +1,222 @@
+import type { Env } from "./router";
+
+const LOCK_LEASE_MS = 30_000;
+const DOCUMENT_SCOPED_PREFIXES = ["doc:", "delta:", "share:"];
+
+export interface PutOptions {
+  expiration?: number;
+}
+
+export interface ListOptions {
+  prefix: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ListResult {
+  keys: string[];
+  cursor?: string;
+}
+
+export type StoredContent = string | ArrayBuffer;
+
+export interface StorageBackend {
+  get(key: string): Promise<string | null>;
+  getBytes(key: string): Promise<ArrayBuffer | null>;
+  getJson<T>(key: string): Promise<T | null>;
+  has(key: string): Promise<boolean>;
+  put(key: string, value: StoredContent, options?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: ListOptions): Promise<ListResult>;
+  withDocumentLock<T>(documentId: string, fn: () => Promise<T>): Promise<T>;
+}
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+export interface BlobBucketObject {
+  body: ReadableStream;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+export interface BlobBucket {
+  get(key: string, options?: { range?: ByteRange }): Promise<BlobBucketObject | null>;
+  head(key: string): Promise<unknown>;
+  put(key: string, value: StoredContent): Promise<unknown>;
+  delete(key: string): Promise<void>;
+}
+
+export interface DocumentStateStub {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: ListOptions): Promise<ListResult>;
+  acquire(): Promise<string>;
+  release(lease: string): Promise<void>;
+}
+
+export interface StoredValue<T = string> {
+  value: T;
+  expiration?: number;
+}
+
+export function isExpired(stored: { expiration?: number }): boolean {
+  return Boolean(stored.expiration && stored.expiration * 1000 <= Date.now());
+}
+
+export function documentIdForKey(key: string): string | null {
+  const prefix = DOCUMENT_SCOPED_PREFIXES.find((candidate) => key.startsWith(candidate));
+  if (!prefix) return null;
+  const rest = key.slice(prefix.length);
+  const separator = rest.indexOf(":");
+  return separator === -1 ? rest : rest.slice(0, separator);
+}
+
+export class LeaseLock {
+  private holder: { lease: string; timer: ReturnType<typeof setTimeout> } | null = null;
+  private waiters: Array<(lease: string) => void> = [];
+
+  acquire(): Promise<string> {
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+      this.grantNext();
+    });
+  }
+
+  release(lease: string) {
+    if (this.holder?.lease !== lease) return;
+    clearTimeout(this.holder.timer);
+    this.holder = null;
+    this.grantNext();
+  }
+
+  private grantNext() {
+    if (this.holder) return;
+    const next = this.waiters.shift();
+    if (!next) return;
+    const lease = crypto.randomUUID();
+    this.holder = { lease, timer: setTimeout(() => this.release(lease), LOCK_LEASE_MS) };
+    next(lease);
+  }
+}
+
+export class KVStorageBackend implements StorageBackend {
+  constructor(private kv: KVNamespace) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.kv.get(key);
+  }
+
+  async getBytes(key: string): Promise<ArrayBuffer | null> {
+    return this.kv.get(key, "arrayBuffer");
+  }
+
+  async getJson<T>(key: string): Promise<T | null> {
+    return this.kv.get<T>(key, "json");
+  }
+
+  async has(key: string): Promise<boolean> {
+    const stream = await this.kv.get(key, "stream");
+    if (!stream) return false;
+    await stream.cancel();
+    return true;
+  }
+
+  async put(key: string, value: StoredContent, options: PutOptions = {}): Promise<void> {
+    await this.kv.put(key, value, options.expiration ? { expiration: options.expiration } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key);
+  }
+
+  async list(options: ListOptions): Promise<ListResult> {
+    const page = await this.kv.list({
+      prefix: options.prefix,
+      limit: options.limit,
+      cursor: options.cursor,
+    });
+    return {
+      keys: page.keys.map((key) => key.name),
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  }
+
+  async withDocumentLock<T>(_documentId: string, fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+}
+
+export class DurableObjectStorageBackend implements StorageBackend {
+  constructor(
+    private getState: (documentId: string) => DocumentStateStub,
+    private shared: StorageBackend
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const state = this.route(key);
+    return state ? state.get(key) : this.shared.get(key);
+  }
+
+  async getBytes(key: string): Promise<ArrayBuffer | null> {
+    const state = this.route(key);
+    if (!state) return this.shared.getBytes(key);
+    const value = await state.get(key);
+    return value === null ? null : (new TextEncoder().encode(value).buffer as ArrayBuffer);
+  }
+
+  async getJson<T>(key: string): Promise<T | null> {
+    const value = await this.get(key);
+    return value === null ? null : (JSON.parse(value) as T);
+  }
+
+  async has(key: string): Promise<boolean> {
+    const state = this.route(key);
+    return state ? (await state.get(key)) !== null : this.shared.has(key);
+  }
+
+  async put(key: string, value: StoredContent, options?: PutOptions): Promise<void> {
+    const state = this.route(key);
+    if (!state) return this.shared.put(key, value, options);
+    if (typeof value !== "string") throw new Error("document-scoped keys only hold text");
+    await state.put(key, value, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    const state = this.route(key);
+    await (state ? state.delete(key) : this.shared.delete(key));
+  }
+
+  async list(options: ListOptions): Promise<ListResult> {
+    const state = this.route(options.prefix);
+    return state ? state.list(options) : this.shared.list(options);
+  }
+
+  async withDocumentLock<T>(documentId: string, fn: () => Promise<T>): Promise<T> {
+    const state = this.getState(documentId);
+    const lease = await state.acquire();
+    try {
+      return await fn();
+    } finally {
+      await state.release(lease);
+    }
+  }
+
+  private route(key: string): DocumentStateStub | null {
+    const documentId = documentIdForKey(key);
+    return documentId ? this.getState(documentId) : null;
+  }
+}
+
+export function createStorageBackend(env: Env): StorageBackend {
+  if (env.DOCUMENT_STATE) {
+    return new DurableObjectStorageBackend(
+      (documentId) => env.DOCUMENT_STATE!.get(env.DOCUMENT_STATE!.idFromName(documentId)),
+      new KVStorageBackend(env.TEXT_KV)
+    );
+  }
+  return new KVStorageBackend(env.TEXT_KV);
+}
@@ -0,0 +1,109 @@
+import { structuredPatch } from "diff";
+import type { DiffHunk, DiffStats, DocumentVersion, FileDiff } from "./types";
+
+export interface ComparableFile {
+  name: string;
+  content: string;
+  binary: boolean;
+}
+
+export function comparableFiles(version: DocumentVersion, fallbackName: string): ComparableFile[] {
+  if (!version.files) {
+    return [{ name: fallbackName, content: version.content, binary: version.encoding === "base64" }];
+  }
+  return version.files.map((file) => ({
+    name: file.name,
+    content: file.content,
+    binary: file.encoding === "base64",
+  }));
+}
+
+/** Added and removed files are a single hunk against nothing, numbered from 0 as git does. */
+function wholeFileHunks(content: string, sign: "+" | "-"): DiffHunk[] {
+  if (!content) return [];
+  const lines = content.split("\n");
+  const terminated = lines[lines.length - 1] === "";
+  if (terminated) lines.pop();
+  const hunkLines = lines.map((line) => `${sign}${line}`);
+  if (!terminated) hunkLines.push("\\ No newline at end of file");
+  return sign === "+"
+    ? [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: lines.length, lines: hunkLines }]
+    : [{ oldStart: 1, oldLines: lines.length, newStart: 0, newLines: 0, lines: hunkLines }];
+}
+
+function diffFile(
+  from: ComparableFile | undefined,
+  to: ComparableFile | undefined,
+  context: number
+): FileDiff {
+  const name = (to ?? from)!.name;
+  const previousName = from && to && from.name !== to.name ? from.name : undefined;
+  const status = !from ? "added" : !to ? "removed" : from.content === to.content ? "unchanged" : "modified";
+  if (from?.binary || to?.binary) {
+    return { name, previousName, status, binary: true, additions: 0, deletions: 0, hunks: [] };
+  }
+  if (status === "unchanged") {
+    return { name, previousName, status, additions: 0, deletions: 0, hunks: [] };
+  }
+  if (!from || !to) {
+    const hunks = wholeFileHunks((to ?? from)!.content, to ? "+" : "-");
+    const changed = hunks[0]?.lines.filter((line) => !line.startsWith("\\")).length ?? 0;
+    return { name, status, additions: to ? changed : 0, deletions: to ? 0 : changed, hunks };
+  }
+  const patch = structuredPatch(from.name, to.name, from.content, to.content, undefined, undefined, { context });
+  const hunks: DiffHunk[] = patch.hunks.map(({ oldStart, oldLines, newStart, newLines, lines }) => ({
+    oldStart,
+    oldLines,
+    newStart,
+    newLines,
+    lines,
+  }));
+  const count = (prefix: string) =>
+    hunks.reduce((total, hunk) => total + hunk.lines.filter((line) => line.startsWith(prefix)).length, 0);
+  return { name, previousName, status, additions: count("+"), deletions: count("-"), hunks };
+}
+
+/**
+ * Pairs files by name. Two single-file versions are always paired, so
+ * documents with different titles can still be compared line by line.
+ */
+export function compareFiles(
+  from: ComparableFile[],
+  to: ComparableFile[],
+  context: number
+): { files: FileDiff[]; stats: DiffStats } {
+  const files =
+    from.length === 1 && to.length === 1
+      ? [diffFile(from[0], to[0], context)]
+      : [
+          ...to.map((file) => diffFile(from.find((candidate) => candidate.name === file.name), file, context)),
+          ...from
+            .filter((file) => !to.some((candidate) => candidate.name === file.name))
+            .map((file) => diffFile(file, undefined, context)),
+        ];
+  return {
+    files,
+    stats: {
+      additions: files.reduce((total, file) => total + file.additions, 0),
+      deletions: files.reduce((total, file) => total + file.deletions, 0),
+      filesChanged: files.filter((file) => file.status !== "unchanged").length,
+    },
+  };
+}
+
+/** Renders file diffs as one unified patch, the format `git apply` and `patch` read. */
+export function formatPatch(files: FileDiff[]): string {
+  return files
+    .filter((file) => file.status !== "unchanged")
+    .map((file) => {
+      const oldPath = file.status === "added" ? "/dev/null" : `a/${file.previousName ?? file.name}`;
+      const newPath = file.status === "removed" ? "/dev/null" : `b/${file.name}`;
+      if (file.binary) return `Binary files ${oldPath} and ${newPath} differ\n`;
+      const hunks = file.hunks.map(
+        (hunk) =>
+          `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@\n${hunk.lines.join("\n")}\n`
+      );
+      return `--- ${oldPath}\n+++ ${newPath}\n${hunks.join("")}`;
+    })
+    .join("");
+}
@@ -0,0 +1,61 @@
+import { DurableObject } from "cloudflare:workers";
+import { LeaseLock, isExpired } from "./backend";
+import type { DocumentStateStub, ListOptions, ListResult, PutOptions, StoredValue } from "./backend";
+import type { Env } from "./router";
+import { WindowCounter } from "./ratelimit";
+import type { RateLimitCounter, RateLimitResult } from "./ratelimit";
+
+export class DocumentStateObject extends DurableObject<Env> implements DocumentStateStub {
+  private lock = new LeaseLock();
+
+  async get(key: string): Promise<string | null> {
+    const stored = await this.ctx.storage.get<StoredValue>(key);
+    if (!stored) return null;
+    if (isExpired(stored)) {
+      await this.ctx.storage.delete(key);
+      return null;
+    }
+    return stored.value;
+  }
+
+  async put(key: string, value: string, options: PutOptions = {}): Promise<void> {
+    await this.ctx.storage.put<StoredValue>(key, { value, expiration: options.expiration });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ctx.storage.delete(key);
+  }
+
+  async list(options: ListOptions): Promise<ListResult> {
+    const entries = await this.ctx.storage.list<StoredValue>({
+      prefix: options.prefix,
+      limit: options.limit,
+      startAfter: options.cursor,
+    });
+    const names = [...entries.keys()];
+    const keys = names.filter((name) => !isExpired(entries.get(name)!));
+    const isFullPage = Boolean(options.limit && entries.size === options.limit);
+    return { keys, cursor: isFullPage ? names[names.length - 1] : undefined };
+  }
+
+  async acquire(): Promise<string> {
+    return this.lock.acquire();
+  }
+
+  async release(lease: string): Promise<void> {
+    this.lock.release(lease);
+  }
+}
+
+/** Holds one client's rate-limit windows in memory; nothing is written to storage. */
+export class RateLimitObject extends DurableObject<Env> implements RateLimitCounter {
+  private counter = new WindowCounter();
+
+  async hit(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
+    return this.counter.hit(key, limit, windowSeconds);
+  }
+
+  async peek(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
+    return this.counter.peek(key, limit, windowSeconds);
+  }
+}
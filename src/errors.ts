@@ -1,5 +1,10 @@
 export class HttpError extends Error {
-  constructor(public status: number, message: string) {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, unknown>,
+    public headers?: Record<string, string>
+  ) {
     super(message);
   }
 }
@@ -12,8 +17,8 @@ export function badRequest(message = "Bad request"): HttpError {
   return new HttpError(400, message);
 }
 
-export function unauthorized(message = "Unauthorized"): HttpError {
-  return new HttpError(401, message);
+export function unauthorized(message = "Unauthorized", details?: Record<string, unknown>): HttpError {
+  return new HttpError(401, message, details);
 }
 
 export function forbidden(message = "Forbidden"): HttpError {
@@ -23,3 +28,15 @@ export function forbidden(message = "Forbidden"): HttpError {
 export function entityTooLarge(message = "Payload too large"): HttpError {
   return new HttpError(413, message);
 }
+
+export function conflict(message = "Conflict", details?: Record<string, unknown>): HttpError {
+  return new HttpError(409, message, details);
+}
+
+export function unprocessableEntity(message = "Unprocessable entity"): HttpError {
+  return new HttpError(422, message);
+}
+
+export function tooManyRequests(retryAfter: number, message = "Too many requests"): HttpError {
+  return new HttpError(429, message, { retryAfter }, { "retry-after": String(retryAfter) });
+}
@@ -0,0 +1,131 @@
+import { DurableObjectStorageBackend, KVStorageBackend, LeaseLock, isExpired } from "./backend";
+import type {
+  BlobBucket,
+  BlobBucketObject,
+  ByteRange,
+  DocumentStateStub,
+  ListOptions,
+  ListResult,
+  PutOptions,
+  StorageBackend,
+  StoredContent,
+  StoredValue,
+} from "./backend";
+
+function listEntries<T>(entries: Map<string, StoredValue<T>>, options: ListOptions): ListResult {
+  const names = [...entries.keys()]
+    .filter((name) => name.startsWith(options.prefix) && !isExpired(entries.get(name)!))
+    .sort();
+  const start = options.cursor ? names.findIndex((name) => name > options.cursor!) : 0;
+  const remaining = start === -1 ? [] : names.slice(start);
+  const keys = options.limit ? remaining.slice(0, options.limit) : remaining;
+  const cursor = keys.length < remaining.length ? keys[keys.length - 1] : undefined;
+  return { keys, cursor };
+}
+
+export class MemoryKVNamespace {
+  private entries = new Map<string, StoredValue<StoredContent>>();
+
+  async get(key: string, type: "text" | "json" | "arrayBuffer" | "stream" = "text"): Promise<unknown> {
+    const stored = this.entries.get(key);
+    if (!stored || isExpired(stored)) return null;
+    const blob = new Blob([stored.value]);
+    if (type === "arrayBuffer") return blob.arrayBuffer();
+    if (type === "stream") return blob.stream();
+    const text = await blob.text();
+    return type === "json" ? JSON.parse(text) : text;
+  }
+
+  async put(key: string, value: StoredContent, options: KVNamespacePutOptions = {}): Promise<void> {
+    this.entries.set(key, { value, expiration: options.expiration });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: KVNamespaceListOptions = {}) {
+    const { keys, cursor } = listEntries(this.entries, {
+      prefix: options.prefix ?? "",
+      limit: options.limit,
+      cursor: options.cursor ?? undefined,
+    });
+    return {
+      keys: keys.map((name) => ({ name })),
+      list_complete: !cursor,
+      cursor: cursor ?? "",
+    };
+  }
+}
+
+export class MemoryDocumentState implements DocumentStateStub {
+  private entries = new Map<string, StoredValue>();
+  private lock = new LeaseLock();
+
+  async get(key: string): Promise<string | null> {
+    const stored = this.entries.get(key);
+    return stored && !isExpired(stored) ? stored.value : null;
+  }
+
+  async put(key: string, value: string, options: PutOptions = {}): Promise<void> {
+    this.entries.set(key, { value, expiration: options.expiration });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: ListOptions): Promise<ListResult> {
+    return listEntries(this.entries, options);
+  }
+
+  async acquire(): Promise<string> {
+    return this.lock.acquire();
+  }
+
+  async release(lease: string): Promise<void> {
+    this.lock.release(lease);
+  }
+}
+
+export class MemoryBucket implements BlobBucket {
+  private objects = new Map<string, Blob>();
+
+  async get(key: string, options: { range?: ByteRange } = {}): Promise<BlobBucketObject | null> {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    const blob = options.range
+      ? object.slice(options.range.offset, options.range.offset + options.range.length)
+      : object;
+    return { body: blob.stream(), text: () => blob.text(), arrayBuffer: () => blob.arrayBuffer() };
+  }
+
+  async head(key: string): Promise<{ size: number } | null> {
+    const object = this.objects.get(key);
+    return object ? { size: object.size } : null;
+  }
+
+  async put(key: string, value: StoredContent): Promise<void> {
+    this.objects.set(key, new Blob([value]));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+}
+
+export function createMemoryKVBackend(): StorageBackend {
+  return new KVStorageBackend(new MemoryKVNamespace() as unknown as KVNamespace);
+}
+
+export function createMemoryDurableObjectBackend(): StorageBackend {
+  const states = new Map<string, MemoryDocumentState>();
+  return new DurableObjectStorageBackend((documentId) => {
+    let state = states.get(documentId);
+    if (!state) {
+      state = new MemoryDocumentState();
+      states.set(documentId, state);
+    }
+    return state;
+  }, createMemoryKVBackend());
+}
@@ -0,0 +1,89 @@
+export const TEXT_CONTENT_TYPE = "text/plain; charset=utf-8";
+export const BINARY_CONTENT_TYPE = "application/octet-stream";
+
+const SNIFF_LENGTH = 8192;
+const GENERIC_TYPES = new Set([BINARY_CONTENT_TYPE, "application/x-www-form-urlencoded"]);
+
+const SIGNATURES: Array<{ type: string; bytes: Array<number | null> }> = [
+  { type: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { type: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  {
+    type: "image/webp",
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  },
+  { type: "image/bmp", bytes: [0x42, 0x4d] },
+  { type: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { type: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: "application/gzip", bytes: [0x1f, 0x8b] },
+];
+
+const EXTENSION_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  ico: "image/x-icon",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  json: "application/json",
+  md: "text/markdown; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  txt: TEXT_CONTENT_TYPE,
+};
+
+function matchesSignature(bytes: Uint8Array, signature: Array<number | null>): boolean {
+  return (
+    bytes.byteLength >= signature.length &&
+    signature.every((byte, i) => byte === null || bytes[i] === byte)
+  );
+}
+
+function extensionOf(filename?: string): string | undefined {
+  const match = filename?.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match?.[1];
+}
+
+export function isTextContentType(contentType?: string): boolean {
+  if (!contentType) return true;
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return (
+    type.startsWith("text/") ||
+    type === "application/json" ||
+    type === "application/xml" ||
+    type === "application/javascript"
+  );
+}
+
+export function isImageContentType(contentType?: string): boolean {
+  return Boolean(contentType?.toLowerCase().startsWith("image/"));
+}
+
+export function decodeText(bytes: Uint8Array): string | null {
+  if (bytes.subarray(0, SNIFF_LENGTH).includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch (error) {
+    return null;
+  }
+}
+
+export function detectContentType(bytes: Uint8Array, filename?: string, declared?: string): string {
+  const signature = SIGNATURES.find((candidate) => matchesSignature(bytes, candidate.bytes));
+  if (signature) return signature.type;
+
+  const extension = extensionOf(filename);
+  if (extension && EXTENSION_TYPES[extension]) return EXTENSION_TYPES[extension];
+
+  const declaredType = declared?.split(";")[0].trim().toLowerCase();
+  if (declaredType && !GENERIC_TYPES.has(declaredType) && /^[a-z]+\/[a-z0-9.+-]+$/.test(declaredType)) {
+    return isTextContentType(declaredType) ? `${declaredType}; charset=utf-8` : declaredType;
+  }
+
+  return decodeText(bytes) === null ? BINARY_CONTENT_TYPE : TEXT_CONTENT_TYPE;
+}
@@ -0,0 +1,68 @@
+import type { Env } from "./router";
+
+export interface ContentPolicyRequest {
+  action: "create" | "update";
+  /** Undefined while the document is being created. */
+  documentId?: string;
+  title?: string;
+  /** Text bodies of the new version. Binary files are left out. */
+  texts: string[];
+  /** Ciphertext cannot be inspected, so policies can only judge the title. */
+  encrypted: boolean;
+  userId?: string;
+  ip?: string;
+}
+
+export interface ContentPolicyVerdict {
+  reason: string;
+}
+
+/** Returns a verdict to reject the payload, or nothing to let it through. */
+export type ContentPolicy = (
+  request: ContentPolicyRequest,
+  env: Env
+) => ContentPolicyVerdict | null | undefined | Promise<ContentPolicyVerdict | null | undefined>;
+
+const blocklistCache = new Map<string, RegExp[]>();
+
+function blocklistPatterns(source: string): RegExp[] {
+  let patterns = blocklistCache.get(source);
+  if (!patterns) {
+    patterns = source
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => new RegExp(line, "iu"));
+    blocklistCache.set(source, patterns);
+  }
+  return patterns;
+}
+
+/** Rejects payloads matching any pattern in `CONTENT_BLOCKLIST`, one regular expression per line. */
+export const blocklistPolicy: ContentPolicy = (request, env) => {
+  if (!env.CONTENT_BLOCKLIST?.trim()) return null;
+  const texts = [request.title ?? "", ...(request.encrypted ? [] : request.texts)];
+  const matched = blocklistPatterns(env.CONTENT_BLOCKLIST).some((pattern) =>
+    texts.some((text) => pattern.test(text))
+  );
+  return matched ? { reason: "matches a blocked pattern" } : null;
+};
+
+const policies: ContentPolicy[] = [blocklistPolicy];
+
+/** Adds a policy consulted before documents are created or updated. */
+export function registerContentPolicy(policy: ContentPolicy) {
+  policies.push(policy);
+}
+
+/** Runs the policies in registration order and returns the first rejection. */
+export async function checkContentPolicy(
+  request: ContentPolicyRequest,
+  env: Env
+): Promise<ContentPolicyVerdict | null> {
+  for (const policy of policies) {
+    const verdict = await policy(request, env);
+    if (verdict) return verdict;
+  }
+  return null;
+}
@@ -0,0 +1,134 @@
+import type { Env } from "./router";
+
+const RATE_LIMIT_KEY_PREFIX = "ratelimit:";
+
+/** `auth` counts failed token lookups, which only the IP bucket can attribute. */
+export type RateLimitAction = "create" | "update" | "read" | "auth";
+/** Anonymous requests count against their IP, authenticated ones against their token. */
+export type RateLimitBucket = "ip" | "token";
+
+export interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitConfig = Record<RateLimitAction, Record<RateLimitBucket, RateLimit | null>>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the current window resets. */
+  retryAfter: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  create: { ip: { limit: 10, windowSeconds: 60 }, token: { limit: 30, windowSeconds: 60 } },
+  update: { ip: { limit: 30, windowSeconds: 60 }, token: { limit: 120, windowSeconds: 60 } },
+  read: { ip: { limit: 300, windowSeconds: 60 }, token: { limit: 600, windowSeconds: 60 } },
+  auth: { ip: { limit: 20, windowSeconds: 60 }, token: null },
+};
+
+function parseRule(value: unknown): RateLimit | null {
+  if (value === "off") return null;
+  const match = typeof value === "string" ? value.match(/^(\d+)\/(\d+)$/) : null;
+  if (!match || !Number(match[2])) {
+    throw new Error(`rate limits must look like "<requests>/<seconds>" or "off", got ${JSON.stringify(value)}`);
+  }
+  return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+/**
+ * Reads `RATE_LIMITS`, a JSON object overriding the defaults per action and
+ * bucket, e.g. `{"create": {"ip": "5/60"}, "read": {"ip": "off"}}`.
+ */
+export function parseRateLimits(value: string | undefined): RateLimitConfig {
+  const config: RateLimitConfig = {
+    create: { ...DEFAULT_RATE_LIMITS.create },
+    update: { ...DEFAULT_RATE_LIMITS.update },
+    read: { ...DEFAULT_RATE_LIMITS.read },
+    auth: { ...DEFAULT_RATE_LIMITS.auth },
+  };
+  if (!value?.trim()) return config;
+  const overrides = JSON.parse(value) as Partial<Record<RateLimitAction, Partial<Record<RateLimitBucket, string>>>>;
+  for (const action of Object.keys(config) as RateLimitAction[]) {
+    for (const bucket of ["ip", "token"] as RateLimitBucket[]) {
+      const override = overrides[action]?.[bucket];
+      if (override !== undefined) config[action][bucket] = parseRule(override);
+    }
+  }
+  return config;
+}
+
+/** Held by the object that owns a client's counters, one per client and bucket. */
+export interface RateLimitCounter {
+  /** Counts one request against `key` unless its current window is already full. */
+  hit(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult>;
+  /** Reports whether `key` has room left in its current window without counting. */
+  peek(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Fixed-window counts kept in memory. Every request for a client reaches the
+ * same Durable Object, which runs them one at a time, so counts are exact and
+ * never touch storage; an object is only evicted once its client goes quiet.
+ */
+export class WindowCounter {
+  private windows = new Map<string, { window: number; count: number }>();
+
+  hit(key: string, limit: number, windowSeconds: number): RateLimitResult {
+    return this.count(key, limit, windowSeconds, true);
+  }
+
+  peek(key: string, limit: number, windowSeconds: number): RateLimitResult {
+    return this.count(key, limit, windowSeconds, false);
+  }
+
+  private count(key: string, limit: number, windowSeconds: number, record: boolean): RateLimitResult {
+    const now = Date.now() / 1000;
+    const window = Math.floor(now / windowSeconds);
+    const retryAfter = Math.max(1, Math.ceil((window + 1) * windowSeconds - now));
+    const current = this.windows.get(key);
+    const count = current?.window === window ? current.count : 0;
+    if (count >= limit) return { allowed: false, retryAfter };
+    if (record) this.windows.set(key, { window, count: count + 1 });
+    return { allowed: true, retryAfter: 0 };
+  }
+}
+
+// Without the binding each isolate counts on its own, which still bounds a single client.
+const isolateCounter = new WindowCounter();
+
+/**
+ * Counts in the `RATE_LIMITER` Durable Object, one instance per client and
+ * bucket. Without the binding counts are kept per isolate instead.
+ */
+export function createRateLimiter(env: Env): RateLimiter {
+  const namespace = env.RATE_LIMITER;
+  const limits = parseRateLimits(env.RATE_LIMITS);
+  if (namespace) return new RateLimiter((name) => namespace.get(namespace.idFromName(name)), limits);
+  return new RateLimiter(
+    (name) => ({
+      hit: async (key, limit, windowSeconds) => isolateCounter.hit(`${name}:${key}`, limit, windowSeconds),
+      peek: async (key, limit, windowSeconds) => isolateCounter.peek(`${name}:${key}`, limit, windowSeconds),
+    }),
+    limits
+  );
+}
+
+export class RateLimiter {
+  constructor(
+    private getCounter: (name: string) => RateLimitCounter,
+    private limits: RateLimitConfig
+  ) {}
+
+  async hit(action: RateLimitAction, bucket: RateLimitBucket, id: string): Promise<RateLimitResult> {
+    const rule = this.limits[action][bucket];
+    if (!rule) return { allowed: true, retryAfter: 0 };
+    return this.getCounter(`${RATE_LIMIT_KEY_PREFIX}${bucket}:${id}`).hit(action, rule.limit, rule.windowSeconds);
+  }
+
+  async peek(action: RateLimitAction, bucket: RateLimitBucket, id: string): Promise<RateLimitResult> {
+    const rule = this.limits[action][bucket];
+    if (!rule) return { allowed: true, retryAfter: 0 };
+    return this.getCounter(`${RATE_LIMIT_KEY_PREFIX}${bucket}:${id}`).peek(action, rule.limit, rule.windowSeconds);
+  }
+}
@@ -1,56 +1,842 @@
 import { Hono } from "hono";
-import { nanoid } from "nanoid";
-import { DocumentStore } from "./storage";
-import { badRequest, entityTooLarge, forbidden, notFound } from "./errors";
-import { jsonResponse, parseJsonRequest, getHeaderToken, getRawUrl } from "./utils";
-import { createShareToken, verifyShareToken } from "./auth";
+import type { Context } from "hono";
+import { DocumentStore, createDocumentStore, versionFiles } from "./storage";
+import type { FileContent, VersionAnnotation, VersionContent } from "./storage";
+import type { DocumentStateObject, RateLimitObject } from "./durable";
+import { TOKEN_SCOPES, createUserStore, isIssuedToken } from "./users";
+import type { Principal, UserStore } from "./users";
+import { WORKSPACE_ROLES, createWorkspaceStore } from "./workspaces";
+import type { WorkspaceStore } from "./workspaces";
 import {
+  HttpError,
+  badRequest,
+  conflict,
+  entityTooLarge,
+  forbidden,
+  notFound,
+  tooManyRequests,
+  unauthorized,
+  unprocessableEntity,
+} from "./errors";
+import { createRateLimiter } from "./ratelimit";
+import type { RateLimitAction } from "./ratelimit";
+import { checkContentPolicy } from "./policy";
+import { comparableFiles, compareFiles, formatPatch } from "./compare";
+import type { ContentPolicyRequest } from "./policy";
+import {
+  jsonResponse,
+  parseJsonRequest,
+  getHeaderToken,
+  getRawUrl,
+  getShareViewUrl,
+  getContentDisposition,
+  getIfMatch,
+  isJsonRequest,
+  parseRangeHeader,
+  parseUploadRequest,
+} from "./utils";
+import { TEXT_CONTENT_TYPE, detectContentType, isImageContentType, isTextContentType } from "./mime";
+import {
+  createShareToken,
+  createUnlockToken,
+  shareAllowsVersion,
+  verifyPassword,
+  verifyShareToken,
+  verifyUnlockToken,
+} from "./auth";
+import {
+  AccountResponse,
+  CreateApiTokenRequest,
   CreateDocumentRequest,
+  CreateShareRequest,
+  CreateShareResponse,
+  CreateWorkspaceRequest,
+  DocumentDiffResponse,
+  DocumentFile,
+  DocumentListFilter,
   DocumentListResponse,
+  DocumentSort,
+  DocumentVersion,
+  DocumentView,
+  ForkDocumentRequest,
+  PatchDocumentRequest,
+  RecoverAccountRequest,
+  RecoveryCodeResponse,
+  RetentionPolicy,
+  SearchResponse,
+  ShareListResponse,
+  ShareTokenPayload,
+  SetLabelRequest,
+  SharedDocumentResponse,
+  SortOrder,
+  TokenScope,
+  UnlockDocumentRequest,
+  UnlockDocumentResponse,
   UpdateDocumentRequest,
+  UpdateWorkspaceMemberRequest,
   UserTokenResponse,
+  VersionListResponse,
+  Visibility,
+  WorkspaceListResponse,
 } from "./types";
 
 export interface Env {
   TEXT_KV: KVNamespace;
   MAX_FILE_SIZE: string;
   SHARE_SECRET?: string;
+  DOCUMENT_STATE?: DurableObjectNamespace<DocumentStateObject>;
+  RATE_LIMITER?: DurableObjectNamespace<RateLimitObject>;
+  CONTENT_BUCKET?: R2Bucket;
+  BUCKET_THRESHOLD?: string;
+  /** JSON overrides for the default rate limits, see `parseRateLimits`. */
+  RATE_LIMITS?: string;
+  /** Regular expressions, one per line, that new content must not match. */
+  CONTENT_BLOCKLIST?: string;
+  /** JSON default retention policy, see `parseRetentionPolicy`. */
+  VERSION_RETENTION?: string;
+}
+
+type AppEnv = {
+  Bindings: Env;
+  Variables: {
+    store: DocumentStore;
+    users: UserStore;
+    workspaces: WorkspaceStore;
+    principal: Principal | null;
+  };
+};
+
+const app = new Hono<AppEnv>();
+
+const MAX_FILES_PER_DOCUMENT = 20;
+const MAX_TOKEN_LIFETIME_DAYS = 365;
+const VISIBILITIES: Visibility[] = ["public", "unlisted", "private", "password"];
+const MIN_PASSWORD_LENGTH = 4;
+const UNLOCK_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const MIN_DOCUMENT_TTL_SECONDS = 60;
+const MAX_DOCUMENT_TTL_DAYS = 365;
+const MAX_BURN_AFTER_READS = 1000;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_TAGS_PER_DOCUMENT = 20;
+const TAG_PATTERN = /^[\p{L}\p{N}_.-]{1,32}$/u;
+const MAX_FOLDER_DEPTH = 8;
+const MAX_FOLDER_SEGMENT_LENGTH = 64;
+const DOCUMENT_SORTS: DocumentSort[] = ["updated", "created", "title", "size"];
+const SORT_ORDERS: SortOrder[] = ["asc", "desc"];
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_AUTHOR_LENGTH = 100;
+const LABEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+const MAX_RETAINED_VERSIONS = 10_000;
+const MAX_RETENTION_DAYS = 3650;
+const DEFAULT_DIFF_CONTEXT = 3;
+const MAX_DIFF_CONTEXT = 100;
+
+function getShareSecret(env: Env): string {
+  return env.SHARE_SECRET ?? "default-secret";
+}
+
+async function getSharePayload(
+  c: Context<AppEnv>,
+  documentId: string
+): Promise<ShareTokenPayload | null> {
+  const token = c.req.query("token");
+  if (!token) return null;
+  const payload = await verifyShareToken(token, getShareSecret(c.env), c.get("store"));
+  if (!payload || payload.documentId !== documentId) {
+    throw forbidden("invalid share token");
+  }
+  return payload;
+}
+
+async function resolvePrincipal(
+  store: DocumentStore,
+  users: UserStore,
+  token: string
+): Promise<Principal> {
+  const principal = await users.authenticate(token);
+  if (principal) return principal;
+  if (!isIssuedToken(token) && (await store.hasLegacyOwner(token))) {
+    const claimed = await users.claimLegacyToken(token);
+    await store.migrateLegacyOwner(token, claimed.userId);
+    return claimed;
+  }
+  throw unauthorized("unknown, expired or revoked token");
+}
+
+/**
+ * Resolves a request token. Failed lookups count against the client IP, and an
+ * IP over its `auth` limit is refused before its next guess costs any reads.
+ */
+async function authenticate(c: Context<AppEnv>, token: string): Promise<Principal> {
+  const limiter = createRateLimiter(c.env);
+  const ip = clientIp(c) ?? "unknown";
+  const allowance = await limiter.peek("auth", "ip", ip);
+  if (!allowance.allowed) throw tooManyRequests(allowance.retryAfter);
+  try {
+    return await resolvePrincipal(c.get("store"), c.get("users"), token);
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 401) await limiter.hit("auth", "ip", ip);
+    throw error;
+  }
+}
+
+function getViewerId(c: Context<AppEnv>): string | undefined {
+  return c.get("principal")?.userId;
+}
+
+function requirePrincipal(c: Context<AppEnv>): Principal {
+  const principal = c.get("principal");
+  if (!principal) throw unauthorized("token required");
+  return principal;
 }
 
-const app = new Hono<{ Bindings: Env; Variables: { store: DocumentStore } }>();
+/**
+ * Rejects requests whose token lacks `scope` or is bound to another document.
+ * Anonymous requests pass through; ownership is checked separately.
+ */
+function requireScope(c: Context<AppEnv>, scope: TokenScope, documentId?: string) {
+  const principal = c.get("principal");
+  if (!principal) return;
+  if (principal.scopes && !principal.scopes.includes(scope)) {
+    throw forbidden(`token lacks the ${scope} scope`);
+  }
+  if (principal.documentId && principal.documentId !== documentId) {
+    throw forbidden(`token is limited to document ${principal.documentId}`);
+  }
+}
+
+function requireUnrestricted(c: Context<AppEnv>): Principal {
+  const principal = requirePrincipal(c);
+  if (principal.scopes || principal.documentId) {
+    throw forbidden("account management requires an unrestricted token");
+  }
+  return principal;
+}
+
+function validateScopes(scopes: unknown): TokenScope[] | undefined {
+  if (scopes === undefined) return undefined;
+  if (
+    !Array.isArray(scopes) ||
+    !scopes.length ||
+    scopes.some((scope) => !TOKEN_SCOPES.includes(scope))
+  ) {
+    throw badRequest(`scopes must be a non-empty list of: ${TOKEN_SCOPES.join(", ")}`);
+  }
+  return [...new Set(scopes as TokenScope[])];
+}
+
+async function requireOwner(c: Context<AppEnv>, documentId: string): Promise<DocumentView> {
+  const store = c.get("store");
+  const document = await store.getDocument(documentId, getViewerId(c));
+  if (!document) throw notFound();
+  if (!document.isOwner) throw forbidden("owner token required");
+  return document;
+}
+
+function labelError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  switch (error.message) {
+    case "NOT_FOUND":
+      return notFound();
+    case "VERSION_NOT_FOUND":
+      return notFound("version not found");
+    case "LABEL_NOT_FOUND":
+      return notFound("label not found");
+    case "TOO_MANY_LABELS":
+      return badRequest("label limit reached");
+    case "FORBIDDEN":
+      return forbidden();
+    default:
+      return error;
+  }
+}
+
+function workspaceError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  switch (error.message) {
+    case "NOT_FOUND":
+      return notFound("workspace not found");
+    case "MEMBER_NOT_FOUND":
+      return notFound("member not found");
+    case "FORBIDDEN":
+      return forbidden("workspace admin role required");
+    case "LAST_ADMIN":
+      return conflict("a workspace needs at least one admin");
+    case "TOO_MANY_MEMBERS":
+      return badRequest("workspace member limit reached");
+    default:
+      return error;
+  }
+}
+
+/**
+ * Password-protected documents accept the password itself in
+ * `x-document-password`, or an unlock token from `/unlock` in `?unlock=`.
+ */
+async function isUnlocked(c: Context<AppEnv>, documentId: string): Promise<boolean> {
+  const password = c.req.header("x-document-password");
+  const unlockToken = c.req.query("unlock");
+  if (!password && !unlockToken) return false;
+  const record = await c.get("store").getRecord(documentId);
+  const { passwordHash, passwordSalt } = record?.metadata ?? {};
+  if (!passwordHash || !passwordSalt) return false;
+  if (password && (await verifyPassword(password, passwordSalt, passwordHash))) return true;
+  return Boolean(
+    unlockToken &&
+      (await verifyUnlockToken(unlockToken, documentId, getShareSecret(c.env), passwordSalt))
+  );
+}
+
+async function canRead(c: Context<AppEnv>, document: DocumentView): Promise<boolean> {
+  if (document.isOwner || document.role) return true;
+  switch (document.visibility) {
+    case "public":
+    case "unlisted":
+      return true;
+    case "password":
+      return isUnlocked(c, document.id);
+    default:
+      return false;
+  }
+}
+
+function readDenied(document: DocumentView) {
+  return document.visibility === "password"
+    ? unauthorized("password required", { passwordRequired: true })
+    : forbidden("owner token required");
+}
+
+function validateVisibility(visibility: unknown, password: unknown) {
+  if (visibility !== undefined && !VISIBILITIES.includes(visibility as Visibility)) {
+    throw badRequest(`visibility must be one of: ${VISIBILITIES.join(", ")}`);
+  }
+  if (
+    password !== undefined &&
+    (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH)
+  ) {
+    throw badRequest(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (visibility === "password" && password === undefined) {
+    throw badRequest("password required for password visibility");
+  }
+}
+
+/** Resolves `expiresAt` or `expiresInSeconds` into an ISO timestamp. */
+function resolveExpiry(expiresAt: unknown, expiresInSeconds: unknown): string | undefined {
+  if (expiresAt !== undefined && expiresInSeconds !== undefined) {
+    throw badRequest("use either expiresAt or expiresInSeconds");
+  }
+  let ttl: number;
+  if (expiresInSeconds !== undefined) {
+    if (typeof expiresInSeconds !== "number" || !Number.isFinite(expiresInSeconds)) {
+      throw badRequest("expiresInSeconds must be a number");
+    }
+    ttl = expiresInSeconds;
+  } else if (expiresAt !== undefined) {
+    const timestamp = typeof expiresAt === "string" ? Date.parse(expiresAt) : NaN;
+    if (Number.isNaN(timestamp)) throw badRequest("expiresAt must be an ISO timestamp");
+    ttl = (timestamp - Date.now()) / 1000;
+  } else {
+    return undefined;
+  }
+  if (ttl < MIN_DOCUMENT_TTL_SECONDS || ttl > MAX_DOCUMENT_TTL_DAYS * 24 * 60 * 60) {
+    throw badRequest(
+      `documents must expire between ${MIN_DOCUMENT_TTL_SECONDS} seconds and ${MAX_DOCUMENT_TTL_DAYS} days from now`
+    );
+  }
+  return new Date(Date.now() + ttl * 1000).toISOString();
+}
+
+function validateBurnAfterReads(burnAfterReads: unknown): number | undefined {
+  if (burnAfterReads === undefined) return undefined;
+  if (
+    !Number.isInteger(burnAfterReads) ||
+    (burnAfterReads as number) < 1 ||
+    (burnAfterReads as number) > MAX_BURN_AFTER_READS
+  ) {
+    throw badRequest(`burnAfterReads must be an integer between 1 and ${MAX_BURN_AFTER_READS}`);
+  }
+  return burnAfterReads as number;
+}
+
+/** Lowercases and de-duplicates tags; an empty list clears them. */
+function validateTags(tags: unknown): string[] | undefined {
+  if (tags === undefined) return undefined;
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+    throw badRequest("tags must be a list of strings");
+  }
+  const normalized = [...new Set((tags as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (normalized.length > MAX_TAGS_PER_DOCUMENT || normalized.some((tag) => !TAG_PATTERN.test(tag))) {
+    throw badRequest(
+      `up to ${MAX_TAGS_PER_DOCUMENT} tags of at most 32 letters, digits, "_", "." or "-"`
+    );
+  }
+  return normalized;
+}
+
+/** Trims stray slashes from a folder path; null or an empty path clears it. */
+function validateFolder(folder: unknown): string | null | undefined {
+  if (folder === undefined || folder === null) return folder;
+  if (typeof folder !== "string") throw badRequest("folder must be a string or null");
+  const segments = folder.split("/").map((segment) => segment.trim()).filter(Boolean);
+  if (
+    segments.length > MAX_FOLDER_DEPTH ||
+    segments.some((segment) => segment.length > MAX_FOLDER_SEGMENT_LENGTH || segment === "." || segment === "..")
+  ) {
+    throw badRequest(
+      `folder must be at most ${MAX_FOLDER_DEPTH} levels of up to ${MAX_FOLDER_SEGMENT_LENGTH} characters`
+    );
+  }
+  return segments.length ? segments.join("/") : null;
+}
+
+function validateRetention(retention: unknown): RetentionPolicy | null | undefined {
+  if (retention === undefined || retention === null) return retention;
+  if (typeof retention !== "object" || Array.isArray(retention)) {
+    throw badRequest("retention must be an object or null");
+  }
+  const { keepLast, keepDays } = retention as RetentionPolicy;
+  if (keepLast !== undefined && (!Number.isInteger(keepLast) || keepLast < 1 || keepLast > MAX_RETAINED_VERSIONS)) {
+    throw badRequest(`retention.keepLast must be an integer between 1 and ${MAX_RETAINED_VERSIONS}`);
+  }
+  if (keepDays !== undefined && (!Number.isInteger(keepDays) || keepDays < 1 || keepDays > MAX_RETENTION_DAYS)) {
+    throw badRequest(`retention.keepDays must be an integer between 1 and ${MAX_RETENTION_DAYS}`);
+  }
+  return { keepLast, keepDays };
+}
+
+function parseListFilter(c: Context<AppEnv>): DocumentListFilter {
+  const sort = c.req.query("sort");
+  const order = c.req.query("order");
+  if (sort !== undefined && !DOCUMENT_SORTS.includes(sort as DocumentSort)) {
+    throw badRequest(`sort must be one of: ${DOCUMENT_SORTS.join(", ")}`);
+  }
+  if (order !== undefined && !SORT_ORDERS.includes(order as SortOrder)) {
+    throw badRequest(`order must be one of: ${SORT_ORDERS.join(", ")}`);
+  }
+  const tag = c.req.query("tag")?.trim().toLowerCase();
+  return {
+    tag: tag || undefined,
+    folder: validateFolder(c.req.query("folder")) ?? undefined,
+    sort: sort as DocumentSort | undefined,
+    order: order as SortOrder | undefined,
+  };
+}
+
+function validateAnnotation(message: unknown, author: unknown) {
+  if (message !== undefined && (typeof message !== "string" || message.length > MAX_MESSAGE_LENGTH)) {
+    throw badRequest(`message must be a string of at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+  if (author !== undefined && (typeof author !== "string" || author.length > MAX_AUTHOR_LENGTH)) {
+    throw badRequest(`author must be a string of at most ${MAX_AUTHOR_LENGTH} characters`);
+  }
+}
+
+function validateLabel(label: string) {
+  if (!LABEL_PATTERN.test(label)) {
+    throw badRequest('labels are up to 64 letters, digits, "_", "." or "-", starting with a letter or digit');
+  }
+}
+
+function clientIp(c: Context<AppEnv>): string | undefined {
+  return c.req.header("cf-connecting-ip") ?? undefined;
+}
+
+function textsOf(input: VersionContent): string[] {
+  const contents = input.files ? input.files.map((file) => file.content) : [input.content];
+  return contents.filter((content): content is string => typeof content === "string");
+}
+
+async function enforceContentPolicy(
+  c: Context<AppEnv>,
+  request: Omit<ContentPolicyRequest, "ip" | "userId">
+) {
+  const verdict = await checkContentPolicy(
+    { ...request, userId: getViewerId(c), ip: clientIp(c) },
+    c.env
+  );
+  if (verdict) throw unprocessableEntity(`content rejected: ${verdict.reason}`);
+}
+
+/**
+ * Counts a content read against burn-after-read documents. Owners and
+ * workspace members read for free so they can still edit the document.
+ */
+async function consumeRead(c: Context<AppEnv>, document: DocumentView) {
+  if (!document.maxReads || document.isOwner || document.role) return;
+  if ((await c.get("store").recordRead(document.id)) === null) throw notFound();
+}
+
+async function restrictToShare(
+  c: Context<AppEnv>,
+  document: DocumentView,
+  payload: ShareTokenPayload
+): Promise<DocumentView> {
+  if (!payload.versionId) return { ...document, rawAccessKey: undefined };
+  const version = await c.get("store").findVersion(document.id, payload.versionId);
+  const versions = version ? [version] : [];
+  return { ...document, versions, versionCount: versions.length, rawAccessKey: undefined };
+}
+
+function validateFiles(files: unknown): FileContent[] | undefined {
+  if (files === undefined) return undefined;
+  if (!Array.isArray(files) || !files.length || files.length > MAX_FILES_PER_DOCUMENT) {
+    throw badRequest(`files must list between 1 and ${MAX_FILES_PER_DOCUMENT} files`);
+  }
+  const names = new Set<string>();
+  for (const file of files) {
+    const validName = typeof file?.name === "string" && file.name.trim() && !file.name.includes("/");
+    const validContent = typeof file?.content === "string" || file?.content instanceof ArrayBuffer;
+    if (!validName || !validContent) {
+      throw badRequest("each file needs a name without slashes and content");
+    }
+    if (names.has(file.name)) throw badRequest(`duplicate file name: ${file.name}`);
+    names.add(file.name);
+  }
+  return files as FileContent[];
+}
+
+async function parseContentRequest(
+  request: Request
+): Promise<
+  VersionContent & {
+    title?: string;
+    baseVersionId?: string;
+    workspaceId?: string;
+    visibility?: Visibility;
+    password?: string;
+    expiresAt?: string;
+    expiresInSeconds?: number;
+    burnAfterReads?: number;
+    encrypted?: boolean;
+    tags?: string[];
+    folder?: string;
+    message?: string;
+    author?: string;
+  }
+> {
+  if (!isJsonRequest(request)) {
+    const upload = await parseUploadRequest(request);
+    validateAnnotation(upload.message, upload.author);
+    return { ...upload, files: validateFiles(upload.files) };
+  }
+  const body = await parseJsonRequest<
+    UpdateDocumentRequest &
+      Pick<
+        CreateDocumentRequest,
+        | "workspaceId"
+        | "visibility"
+        | "password"
+        | "expiresAt"
+        | "expiresInSeconds"
+        | "burnAfterReads"
+        | "encrypted"
+        | "tags"
+        | "folder"
+      >
+  >(request);
+  if (body.workspaceId !== undefined && typeof body.workspaceId !== "string") {
+    throw badRequest("workspaceId must be a string");
+  }
+  if (body.encrypted !== undefined && typeof body.encrypted !== "boolean") {
+    throw badRequest("encrypted must be a boolean");
+  }
+  validateAnnotation(body.message, body.author);
+  const files = validateFiles(body.files)?.map((file) => {
+    const detected = detectContentType(new TextEncoder().encode(file.content as string), file.name);
+    return { ...file, contentType: isTextContentType(detected) ? detected : TEXT_CONTENT_TYPE };
+  });
+  if (!files && typeof body.content !== "string") {
+    throw badRequest("content or files required");
+  }
+  return { ...body, files };
+}
 
 app.use("*", async (c, next) => {
-  const store = new DocumentStore(c.env.TEXT_KV, Number(c.env.MAX_FILE_SIZE));
+  const store = createDocumentStore(c.env);
+  const users = createUserStore(c.env);
   c.set("store", store);
+  c.set("users", users);
+  c.set("workspaces", createWorkspaceStore(c.env));
+  const token = getHeaderToken(c.req.raw)?.trim();
+  c.set("principal", token ? await authenticate(c, token) : null);
+  await next();
+});
+
+app.use("/api/*", async (c, next) => {
+  const method = c.req.method;
+  const action: RateLimitAction =
+    method === "GET" || method === "HEAD" ? "read" : method === "POST" ? "create" : "update";
+  const principal = c.get("principal");
+  const limiter = createRateLimiter(c.env);
+  const result = principal
+    ? await limiter.hit(action, "token", principal.tokenId)
+    : await limiter.hit(action, "ip", clientIp(c) ?? "unknown");
+  if (!result.allowed) throw tooManyRequests(result.retryAfter);
   await next();
 });
 
 app.post("/api/token", async (c) => {
-  const token = nanoid(24);
-  return jsonResponse({ token });
+  const { userId, token, recoveryCode } = await c.get("users").createUser();
+  return jsonResponse<UserTokenResponse>({
+    token: token.token,
+    userId,
+    tokenInfo: token.info,
+    recoveryCode,
+  });
+});
+
+app.get("/api/account", async (c) => {
+  const principal = requireUnrestricted(c);
+  const account = await c.get("users").getAccount(principal);
+  if (!account) throw notFound("account not found");
+  return jsonResponse<AccountResponse>(account);
+});
+
+app.post("/api/account/tokens", async (c) => {
+  const principal = requireUnrestricted(c);
+  const body = await parseJsonRequest<CreateApiTokenRequest>(c.req.raw);
+  if (body.name !== undefined && typeof body.name !== "string") {
+    throw badRequest("name must be a string");
+  }
+  const scopes = validateScopes(body.scopes);
+  if (body.documentId !== undefined) {
+    if (typeof body.documentId !== "string") throw badRequest("documentId must be a string");
+    const document = await c.get("store").getDocument(body.documentId, principal.userId);
+    if (!document) throw notFound("document not found");
+    if (!document.isOwner) throw forbidden("tokens can only be limited to your own documents");
+  }
+  if (
+    body.expiresInDays !== undefined &&
+    (!Number.isInteger(body.expiresInDays) ||
+      body.expiresInDays < 1 ||
+      body.expiresInDays > MAX_TOKEN_LIFETIME_DAYS)
+  ) {
+    throw badRequest(`expiresInDays must be an integer between 1 and ${MAX_TOKEN_LIFETIME_DAYS}`);
+  }
+
+  try {
+    const issued = await c.get("users").createToken(principal.userId, body.name ?? "token", {
+      scopes,
+      documentId: body.documentId,
+      expiresAt: body.expiresInDays
+        ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : undefined,
+    });
+    return jsonResponse<UserTokenResponse>({
+      token: issued.token,
+      userId: principal.userId,
+      tokenInfo: issued.info,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "TOO_MANY_TOKENS") {
+      throw badRequest("too many active tokens; revoke one first");
+    }
+    throw error;
+  }
+});
+
+app.post("/api/account/tokens/:tokenId/rotate", async (c) => {
+  const principal = requireUnrestricted(c);
+  const { tokenId } = c.req.param();
+
+  try {
+    const issued = await c.get("users").rotateToken(principal.userId, tokenId);
+    return jsonResponse<UserTokenResponse>({
+      token: issued.token,
+      userId: principal.userId,
+      tokenInfo: issued.info,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "TOKEN_EXPIRED") {
+      throw badRequest("expired tokens cannot be rotated");
+    }
+    if (error instanceof Error && error.message === "NOT_FOUND") {
+      throw notFound("token not found");
+    }
+    throw error;
+  }
+});
+
+app.delete("/api/account/tokens/:tokenId", async (c) => {
+  const principal = requireUnrestricted(c);
+  const { tokenId } = c.req.param();
+
+  try {
+    const token = await c.get("users").revokeToken(principal.userId, tokenId);
+    return jsonResponse(token);
+  } catch (error) {
+    if (error instanceof Error && error.message === "NOT_FOUND") {
+      throw notFound("token not found");
+    }
+    throw error;
+  }
+});
+
+app.post("/api/account/recovery-code", async (c) => {
+  const principal = requireUnrestricted(c);
+  const recoveryCode = await c.get("users").regenerateRecoveryCode(principal.userId);
+  return jsonResponse<RecoveryCodeResponse>({ recoveryCode });
+});
+
+app.post("/api/account/recover", async (c) => {
+  const body = await parseJsonRequest<RecoverAccountRequest>(c.req.raw);
+  if (typeof body.recoveryCode !== "string" || !body.recoveryCode.trim()) {
+    throw badRequest("recoveryCode required");
+  }
+
+  try {
+    const { userId, token, recoveryCode } = await c
+      .get("users")
+      .recover(body.recoveryCode, typeof body.name === "string" ? body.name : undefined);
+    return jsonResponse<UserTokenResponse>({
+      token: token.token,
+      userId,
+      tokenInfo: token.info,
+      recoveryCode,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "INVALID_RECOVERY_CODE") {
+      throw unauthorized("invalid recovery code");
+    }
+    throw error;
+  }
+});
+
+app.get("/api/workspaces", async (c) => {
+  const principal = requirePrincipal(c);
+  requireScope(c, "documents:read");
+  const workspaces = await c.get("workspaces").listWorkspaces(principal.userId);
+  return jsonResponse<WorkspaceListResponse>({ workspaces });
+});
+
+app.post("/api/workspaces", async (c) => {
+  const principal = requireUnrestricted(c);
+  const body = await parseJsonRequest<CreateWorkspaceRequest>(c.req.raw);
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    throw badRequest("name required");
+  }
+  const workspace = await c.get("workspaces").createWorkspace(principal.userId, body.name);
+  return jsonResponse(workspace);
+});
+
+app.get("/api/workspaces/:workspaceId", async (c) => {
+  const principal = requirePrincipal(c);
+  requireScope(c, "documents:read");
+  const { workspaceId } = c.req.param();
+  const workspace = await c.get("workspaces").getWorkspace(workspaceId);
+  if (!workspace?.members.some((member) => member.userId === principal.userId)) {
+    throw notFound("workspace not found");
+  }
+  return jsonResponse(workspace);
+});
+
+app.patch("/api/workspaces/:workspaceId", async (c) => {
+  const principal = requireUnrestricted(c);
+  const { workspaceId } = c.req.param();
+  const body = await parseJsonRequest<CreateWorkspaceRequest>(c.req.raw);
+  if (typeof body.name !== "string" || !body.name.trim()) {
+    throw badRequest("name required");
+  }
+
+  try {
+    const workspace = await c.get("workspaces").renameWorkspace(workspaceId, principal.userId, body.name);
+    return jsonResponse(workspace);
+  } catch (error) {
+    throw workspaceError(error);
+  }
+});
+
+app.put("/api/workspaces/:workspaceId/members/:userId", async (c) => {
+  const principal = requireUnrestricted(c);
+  const { workspaceId, userId } = c.req.param();
+  const body = await parseJsonRequest<UpdateWorkspaceMemberRequest>(c.req.raw);
+  if (!WORKSPACE_ROLES.includes(body.role)) {
+    throw badRequest(`role must be one of: ${WORKSPACE_ROLES.join(", ")}`);
+  }
+  if (!(await c.get("users").hasUser(userId))) {
+    throw notFound("user not found");
+  }
+
+  try {
+    const workspace = await c
+      .get("workspaces")
+      .setMember(workspaceId, principal.userId, userId, body.role);
+    return jsonResponse(workspace);
+  } catch (error) {
+    throw workspaceError(error);
+  }
+});
+
+app.delete("/api/workspaces/:workspaceId/members/:userId", async (c) => {
+  const principal = requireUnrestricted(c);
+  const { workspaceId, userId } = c.req.param();
+
+  try {
+    const workspace = await c.get("workspaces").removeMember(workspaceId, principal.userId, userId);
+    return jsonResponse(workspace);
+  } catch (error) {
+    throw workspaceError(error);
+  }
 });
 
 app.post("/api/documents", async (c) => {
   const store = c.get("store");
-  const ownerToken = getHeaderToken(c.req.raw);
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:write");
 
-  const body = await parseJsonRequest<CreateDocumentRequest>(c.req.raw);
+  const input = await parseContentRequest(c.req.raw);
 
-  if (!body.title?.trim() || typeof body.content !== "string") {
+  if (!input.title?.trim()) {
     throw badRequest("title and content required");
   }
+  validateVisibility(input.visibility, input.password);
+  if ((input.visibility === "private" || input.visibility === "password") && !ownerId) {
+    throw badRequest("private and password documents need an owner token");
+  }
+  const expiresAt = resolveExpiry(input.expiresAt, input.expiresInSeconds);
+  const maxReads = validateBurnAfterReads(input.burnAfterReads);
+  if (maxReads && input.visibility === "public") {
+    throw badRequest("burn-after-read documents cannot be public; use unlisted");
+  }
+  const tags = validateTags(input.tags);
+  const folder = validateFolder(input.folder);
+  await enforceContentPolicy(c, {
+    action: "create",
+    title: input.title,
+    texts: textsOf(input),
+    encrypted: Boolean(input.encrypted),
+  });
 
   try {
     const result = await store.createDocument({
-      title: body.title,
-      content: body.content,
-      ownerToken,
+      title: input.title,
+      content: input.content,
+      contentType: input.contentType,
+      files: input.files,
+      ownerId,
+      workspaceId: input.workspaceId,
+      visibility: input.visibility,
+      password: input.visibility === "password" ? input.password : undefined,
+      expiresAt,
+      maxReads,
+      encrypted: input.encrypted,
+      tags: tags?.length ? tags : undefined,
+      folder: folder ?? undefined,
+      message: input.message,
+      author: input.author,
     });
     return jsonResponse(result);
   } catch (error) {
     if (error instanceof Error && error.message === "FILE_TOO_LARGE") {
       throw entityTooLarge("file exceeds size limit");
     }
+    if (error instanceof Error && error.message === "INVALID_CIPHERTEXT") {
+      throw badRequest("encrypted content must be base64url <iv>.<ciphertext>");
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      throw forbidden("workspace editor role required");
+    }
     throw error;
   }
 });
@@ -59,38 +845,116 @@ app.get("/api/documents", async (c) => {
   const store = c.get("store");
   const limit = Math.min(Math.max(Number(c.req.query("limit")) || 20, 1), 50);
   const cursor = c.req.query("cursor") ?? undefined;
-  const ownerToken = getHeaderToken(c.req.raw);
+  const viewerId = getViewerId(c);
+  requireScope(c, "documents:read");
+  const filter = parseListFilter(c);
 
-  if (ownerToken && c.req.query("scope") === "mine") {
-    const result = await store.listOwnerDocuments(ownerToken, limit, cursor);
+  if (viewerId && c.req.query("scope") === "mine") {
+    const result = await store.listOwnerDocuments(viewerId, limit, cursor, filter);
     return jsonResponse<DocumentListResponse>(result);
   }
 
-  const result = await store.listPublicDocuments(ownerToken, limit, cursor);
+  if (c.req.query("scope") === "workspace") {
+    const workspaceId = c.req.query("workspaceId");
+    if (!workspaceId) throw badRequest("workspaceId required");
+    if (!viewerId) throw unauthorized("token required");
+    try {
+      const result = await store.listWorkspaceDocuments(workspaceId, viewerId, limit, cursor, filter);
+      return jsonResponse<DocumentListResponse>(result);
+    } catch (error) {
+      if (error instanceof Error && error.message === "FORBIDDEN") {
+        throw forbidden("not a member of this workspace");
+      }
+      throw error;
+    }
+  }
+
+  const result = await store.listPublicDocuments(viewerId, limit, cursor, filter);
   return jsonResponse<DocumentListResponse>(result);
 });
 
+app.get("/api/documents/search", async (c) => {
+  const store = c.get("store");
+  const query = c.req.query("q")?.trim();
+  if (!query) throw badRequest("q required");
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    throw badRequest(`q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`);
+  }
+  const limit = Math.min(Math.max(Number(c.req.query("limit")) || 20, 1), 50);
+  const viewerId = getViewerId(c);
+  requireScope(c, "documents:read");
+
+  const scope = c.req.query("scope");
+  const workspaceId = c.req.query("workspaceId");
+  if (scope === "workspace" && !workspaceId) throw badRequest("workspaceId required");
+  if ((scope === "mine" || scope === "workspace") && !viewerId) throw unauthorized("token required");
+
+  try {
+    const result = await store.searchDocuments(query, viewerId, {
+      scope: scope === "mine" || scope === "workspace" ? scope : "public",
+      workspaceId,
+      limit,
+    });
+    return jsonResponse<SearchResponse>(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      throw forbidden("not a member of this workspace");
+    }
+    throw error;
+  }
+});
+
 app.put("/api/documents/:id", async (c) => {
   const store = c.get("store");
   const { id } = c.req.param();
-  const ownerToken = getHeaderToken(c.req.raw);
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:write", id);
 
-  const body = await parseJsonRequest<UpdateDocumentRequest>(c.req.raw);
+  const body = await parseContentRequest(c.req.raw);
 
-  if (typeof body.content !== "string") {
-    throw badRequest("content is required");
+  if (body.title !== undefined && typeof body.title !== "string") {
+    throw badRequest("title must be a string");
   }
+  await enforceContentPolicy(c, {
+    action: "update",
+    documentId: id,
+    title: body.title,
+    texts: textsOf(body),
+    encrypted: Boolean((await store.getDocument(id, ownerId))?.encrypted),
+  });
 
   try {
     const result = await store.updateDocument(id, {
       content: body.content,
-      ownerToken,
+      contentType: body.contentType,
+      files: body.files,
+      title: body.title,
+      ownerId,
+      baseVersionId: body.baseVersionId,
+      baseHash: getIfMatch(c.req.raw),
+      message: body.message,
+      author: body.author,
     });
     return jsonResponse(result);
   } catch (error) {
+    if (error instanceof Error && error.message === "CONFLICT") {
+      const current = await store.getDocument(id, ownerId);
+      if (!current) throw notFound();
+      // The current head is only handed to callers who could read it anyway.
+      if (!(await canRead(c, current))) throw conflict("document has changed since base version");
+      const currentVersion = current.versions[0]
+        ? await store.getVersion(id, current.versions[0].versionId)
+        : null;
+      if (!currentVersion) throw notFound();
+      await consumeRead(c, current);
+      throw conflict("document has changed since base version", { current, currentVersion });
+    }
     if (error instanceof Error && error.message === "FILE_TOO_LARGE") {
       throw entityTooLarge("file exceeds size limit");
     }
+    if (error instanceof Error && error.message === "INVALID_CIPHERTEXT") {
+      throw badRequest("encrypted documents only accept base64url <iv>.<ciphertext> content");
+    }
     if (error instanceof Error && error.message === "NOT_FOUND") {
       throw notFound();
     }
@@ -101,24 +965,88 @@ app.put("/api/documents/:id", async (c) => {
   }
 });
 
+app.patch("/api/documents/:id", async (c) => {
+  const store = c.get("store");
+  const { id } = c.req.param();
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:write", id);
+
+  const body = await parseJsonRequest<PatchDocumentRequest>(c.req.raw);
+
+  if (body.title !== undefined && (typeof body.title !== "string" || !body.title.trim())) {
+    throw badRequest("title must be a non-empty string");
+  }
+  if (
+    body.workspaceId !== undefined &&
+    body.workspaceId !== null &&
+    (typeof body.workspaceId !== "string" || !body.workspaceId)
+  ) {
+    throw badRequest("workspaceId must be a workspace id or null");
+  }
+  if (body.visibility !== undefined && !VISIBILITIES.includes(body.visibility)) {
+    throw badRequest(`visibility must be one of: ${VISIBILITIES.join(", ")}`);
+  }
+  if (
+    body.password !== undefined &&
+    (typeof body.password !== "string" || body.password.length < MIN_PASSWORD_LENGTH)
+  ) {
+    throw badRequest(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const tags = validateTags(body.tags);
+  const folder = validateFolder(body.folder);
+  const retention = validateRetention(body.retention);
+  if (body.title !== undefined) {
+    await enforceContentPolicy(c, { action: "update", documentId: id, title: body.title, texts: [], encrypted: false });
+  }
+
+  try {
+    const metadata = await store.updateDocumentMetadata(id, {
+      title: body.title,
+      ownerId,
+      workspaceId: body.workspaceId,
+      visibility: body.visibility,
+      password: body.password,
+      tags,
+      folder,
+      retention,
+    });
+    return jsonResponse(metadata);
+  } catch (error) {
+    if (error instanceof Error && error.message === "NOT_FOUND") {
+      throw notFound();
+    }
+    if (error instanceof Error && error.message === "PASSWORD_REQUIRED") {
+      throw badRequest("password required for password visibility");
+    }
+    if (error instanceof Error && error.message === "INVALID_VISIBILITY") {
+      throw badRequest("burn-after-read documents cannot be public");
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      throw forbidden();
+    }
+    throw error;
+  }
+});
+
 app.delete("/api/documents/:id", async (c) => {
   const store = c.get("store");
   const { id } = c.req.param();
-  const ownerToken = getHeaderToken(c.req.raw);
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:delete", id);
 
-  if (!ownerToken) {
+  if (!ownerId) {
     throw forbidden("owner token required");
   }
 
   try {
-    await store.deleteDocument(id, ownerToken);
+    await store.deleteDocument(id, ownerId);
     return jsonResponse({ ok: true });
   } catch (error) {
     if (error instanceof Error && error.message === "NOT_FOUND") {
       throw notFound();
     }
     if (error instanceof Error && error.message === "FORBIDDEN") {
-      throw forbidden("owner token required");
+      throw forbidden("owner token or workspace admin role required");
     }
     throw error;
   }
@@ -127,107 +1055,542 @@ app.delete("/api/documents/:id", async (c) => {
 app.get("/api/documents/:id", async (c) => {
   const store = c.get("store");
   const { id } = c.req.param();
-  const viewerToken = getHeaderToken(c.req.raw);
-  const document = await store.getDocument(id, viewerToken);
+  requireScope(c, "documents:read", id);
+  const document = await store.getDocument(id, getViewerId(c));
   if (!document) throw notFound();
 
-  if (!document.isOwner && document.isPrivate) {
-    throw forbidden("owner token required");
+  if (!(await canRead(c, document))) {
+    const share = await getSharePayload(c, id);
+    if (!share) throw readDenied(document);
+    const shared = await restrictToShare(c, document, share);
+    await store.recordShareView(id, share.shareId);
+    return jsonResponse(shared);
   }
 
   return jsonResponse(document);
 });
 
+app.get("/api/documents/:id/versions", async (c) => {
+  const store = c.get("store");
+  const { id } = c.req.param();
+  requireScope(c, "documents:read", id);
+  const document = await store.getDocument(id, getViewerId(c));
+  if (!document) throw notFound();
+
+  if (!(await canRead(c, document))) {
+    const share = await getSharePayload(c, id);
+    if (!share) throw readDenied(document);
+    await store.recordShareView(id, share.shareId);
+    if (share.versionId) {
+      const { versions } = await restrictToShare(c, document, share);
+      return jsonResponse<VersionListResponse>({ versions });
+    }
+  }
+
+  const limit = Math.min(Math.max(Number(c.req.query("limit")) || 50, 1), 100);
+  try {
+    return jsonResponse<VersionListResponse>(await store.listVersions(id, limit, c.req.query("cursor")));
+  } catch (error) {
+    if (error instanceof Error && error.message === "NOT_FOUND") throw notFound();
+    if (error instanceof Error && error.message === "INVALID_CURSOR") {
+      throw badRequest("cursor version no longer exists; start again from the first page");
+    }
+    throw error;
+  }
+});
+
 app.get("/api/documents/:id/version", async (c) => {
   const store = c.get("store");
   const { id } = c.req.param();
   const versionId = c.req.query("versionId");
   if (!versionId) throw badRequest("versionId required");
-  const viewerToken = getHeaderToken(c.req.raw);
-  const document = await store.getDocument(id, viewerToken);
+  requireScope(c, "documents:read", id);
+  const document = await store.getDocument(id, getViewerId(c));
   if (!document) throw notFound();
 
-  if (!document.isOwner && document.isPrivate) {
-    throw forbidden("owner token required");
+  if (!(await canRead(c, document))) {
+    const share = await getSharePayload(c, id);
+    if (!share) throw readDenied(document);
+    if (share.access !== "raw" || !shareAllowsVersion(share, versionId)) {
+      throw forbidden("share token does not grant this version");
+    }
+    const version = await store.getVersion(id, versionId);
+    if (!version) throw notFound();
+    await store.recordShareView(id, share.shareId);
+    await consumeRead(c, document);
+    return jsonResponse(version);
   }
 
   const version = await store.getVersion(id, versionId);
   if (!version) throw notFound();
+  await consumeRead(c, document);
   return jsonResponse(version);
 });
 
-app.get("/api/documents/:id/raw", async (c) => {
+/**
+ * Loads one side of a comparison. The `:id` document accepts the same
+ * credentials as its raw route; another document needs read access or its
+ * raw key.
+ */
+async function loadDiffSide(
+  c: Context<AppEnv>,
+  documentId: string,
+  versionId: string | undefined,
+  rawKey: string | undefined,
+  allowShare: boolean
+): Promise<{ document: DocumentView; version: DocumentVersion }> {
   const store = c.get("store");
+  requireScope(c, "documents:read", documentId);
+  const document = await store.getDocument(documentId, getViewerId(c));
+  if (!document) throw notFound();
+  const versionMetadata = versionId ? await store.findVersion(documentId, versionId) : document.versions[0];
+  if (!versionMetadata) throw notFound("version not found");
+
+  if (!(await canRead(c, document))) {
+    const record = await store.getRecord(documentId);
+    const rawAccessKey = record?.metadata.rawAccessKey;
+    if (!rawKey || !rawAccessKey || rawKey !== rawAccessKey) {
+      const share = allowShare ? await getSharePayload(c, documentId) : null;
+      if (!share) throw readDenied(document);
+      if (share.access !== "raw" || !shareAllowsVersion(share, versionMetadata.versionId)) {
+        throw forbidden("share token does not grant this version");
+      }
+    }
+  }
+  if (document.encrypted) {
+    throw badRequest("encrypted documents can only be compared in the browser");
+  }
+  // Each side would spend a read, and the first could burn the document before the second loads.
+  if (document.maxReads && !document.isOwner && !document.role) {
+    throw badRequest("burn-after-read documents cannot be compared");
+  }
+
+  const version = await store.getVersion(documentId, versionMetadata.versionId);
+  if (!version) throw notFound();
+  return { document, version };
+}
+
+app.get("/api/documents/:id/diff", async (c) => {
   const { id } = c.req.param();
-  const versionId = c.req.query("versionId");
+  const toDocumentId = c.req.query("toDocument") || id;
+  const format = c.req.query("format") ?? "hunks";
+  if (format !== "hunks" && format !== "patch") throw badRequest("format must be hunks or patch");
+  const context = c.req.query("context") === undefined ? DEFAULT_DIFF_CONTEXT : Number(c.req.query("context"));
+  if (!Number.isInteger(context) || context < 0 || context > MAX_DIFF_CONTEXT) {
+    throw badRequest(`context must be an integer between 0 and ${MAX_DIFF_CONTEXT}`);
+  }
+
+  const to =
+    toDocumentId === id
+      ? await loadDiffSide(c, id, c.req.query("to"), c.req.query("rawKey"), true)
+      : await loadDiffSide(c, toDocumentId, c.req.query("to"), c.req.query("toRawKey"), false);
+  let fromVersionId = c.req.query("from");
+  if (!fromVersionId && toDocumentId === id) {
+    // Within one document, default to what the `to` version replaced.
+    let older: VersionListResponse;
+    try {
+      older = await c.get("store").listVersions(id, 1, to.version.metadata.versionId);
+    } catch (error) {
+      // The document or the `to` version was removed after it was loaded.
+      if (error instanceof Error && (error.message === "NOT_FOUND" || error.message === "INVALID_CURSOR")) {
+        throw notFound();
+      }
+      throw error;
+    }
+    fromVersionId = older.versions[0]?.versionId;
+    if (!fromVersionId) throw notFound("no earlier version to compare with");
+  }
+  const from =
+    toDocumentId === id && fromVersionId === to.version.metadata.versionId
+      ? to
+      : await loadDiffSide(c, id, fromVersionId, c.req.query("rawKey"), true);
+
+  const file = c.req.query("file");
+  const pick = (files: ReturnType<typeof comparableFiles>) =>
+    file ? files.filter((candidate) => candidate.name === file) : files;
+  const fromFiles = pick(comparableFiles(from.version, from.document.title));
+  const toFiles = pick(comparableFiles(to.version, to.document.title));
+  if (file && !fromFiles.length && !toFiles.length) throw notFound("file not found");
+  const { files, stats } = compareFiles(fromFiles, toFiles, context);
+
+  if (format === "patch") {
+    return new Response(formatPatch(files), {
+      headers: {
+        "content-type": "text/x-diff; charset=utf-8",
+        "x-diff-additions": String(stats.additions),
+        "x-diff-deletions": String(stats.deletions),
+      },
+    });
+  }
+  return jsonResponse<DocumentDiffResponse>({
+    from: { documentId: from.document.id, versionId: from.version.metadata.versionId },
+    to: { documentId: to.document.id, versionId: to.version.metadata.versionId },
+    files,
+    stats,
+  });
+});
+
+app.post("/api/documents/:id/versions/:versionId/restore", async (c) => {
+  const store = c.get("store");
+  const { id, versionId } = c.req.param();
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:write", id);
+  const body = isJsonRequest(c.req.raw) ? await parseJsonRequest<VersionAnnotation>(c.req.raw) : {};
+  validateAnnotation(body.message, body.author);
+  const document = await store.getDocument(id, ownerId);
+  if (!document) throw notFound();
+  // The restored version comes back in the response.
+  if (!(await canRead(c, document))) throw readDenied(document);
+
+  try {
+    const result = await store.restoreVersion(id, versionId, ownerId, {
+      message: body.message,
+      author: body.author,
+    });
+    await consumeRead(c, document);
+    return jsonResponse(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === "NOT_FOUND") {
+      throw notFound();
+    }
+    if (error instanceof Error && error.message === "VERSION_NOT_FOUND") {
+      throw notFound("version not found");
+    }
+    if (error instanceof Error && error.message === "ALREADY_LATEST") {
+      throw badRequest("version is already the latest");
+    }
+    if (error instanceof Error && error.message === "CONFLICT") {
+      throw conflict("document changed while restoring; try again");
+    }
+    if (error instanceof Error && error.message === "FORBIDDEN") {
+      throw forbidden();
+    }
+    throw error;
+  }
+});
+
+app.post("/api/documents/:id/fork", async (c) => {
+  const store = c.get("store");
+  const { id } = c.req.param();
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:read", id);
+  requireScope(c, "documents:write");
+  const body = isJsonRequest(c.req.raw) ? await parseJsonRequest<ForkDocumentRequest>(c.req.raw) : {};
+  if (body.versionId !== undefined && (typeof body.versionId !== "string" || !body.versionId)) {
+    throw badRequest("versionId must be a version id");
+  }
+  if (body.title !== undefined && (typeof body.title !== "string" || !body.title.trim())) {
+    throw badRequest("title must be a non-empty string");
+  }
+
+  const document = await store.getDocument(id, ownerId);
+  if (!document) throw notFound();
+  let share: ShareTokenPayload | null = null;
+  if (!(await canRead(c, document))) {
+    share = await getSharePayload(c, id);
+    if (!share) throw readDenied(document);
+    const versionId = body.versionId ?? share.versionId ?? document.versions[0]?.versionId;
+    if (share.access !== "raw" || !versionId || !shareAllowsVersion(share, versionId)) {
+      throw forbidden("share token does not grant this version");
+    }
+    body.versionId = versionId;
+  }
+  if (body.title !== undefined) {
+    await enforceContentPolicy(c, { action: "create", title: body.title, texts: [], encrypted: false });
+  }
+
+  try {
+    const result = await store.forkDocument(id, { versionId: body.versionId, title: body.title, ownerId });
+    if (share) await store.recordShareView(id, share.shareId);
+    return jsonResponse(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === "NOT_FOUND") {
+      throw notFound();
+    }
+    if (error instanceof Error && error.message === "VERSION_NOT_FOUND") {
+      throw notFound("version not found");
+    }
+    if (error instanceof Error && error.message === "NOT_FORKABLE") {
+      throw badRequest("expiring and burn-after-read documents cannot be forked");
+    }
+    if (error instanceof Error && error.message === "OWNER_REQUIRED") {
+      throw unauthorized("token required to fork a document that is not public or unlisted");
+    }
+    throw error;
+  }
+});
+
+app.put("/api/documents/:id/labels/:label", async (c) => {
+  const store = c.get("store");
+  const { id, label } = c.req.param();
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:write", id);
+  validateLabel(label);
+  const body = await parseJsonRequest<SetLabelRequest>(c.req.raw);
+  if (typeof body.versionId !== "string" || !body.versionId) throw badRequest("versionId required");
+
+  try {
+    return jsonResponse(await store.setLabel(id, label, body.versionId, ownerId));
+  } catch (error) {
+    throw labelError(error);
+  }
+});
+
+app.delete("/api/documents/:id/labels/:label", async (c) => {
+  const store = c.get("store");
+  const { id, label } = c.req.param();
+  const ownerId = getViewerId(c);
+  requireScope(c, "documents:write", id);
+
+  try {
+    return jsonResponse(await store.setLabel(id, label, null, ownerId));
+  } catch (error) {
+    throw labelError(error);
+  }
+});
+
+async function serveRaw(c: Context<AppEnv>) {
+  const store = c.get("store");
+  const id = c.req.param("id");
+  const filename = c.req.param("filename");
+  const label = c.req.query("label");
   const rawKey = c.req.query("rawKey");
-  const viewerToken = getHeaderToken(c.req.raw);
-  const document = await store.getDocument(id, viewerToken);
+  requireScope(c, "documents:read", id);
+  const document = await store.getDocument(id, getViewerId(c));
   if (!document) throw notFound();
+  if (label && c.req.query("versionId")) throw badRequest("use either versionId or label");
+  const versionId = label ? document.labels?.[label] : c.req.query("versionId");
+  if (label && !versionId) throw notFound("label not found");
 
-  if (!document.isOwner && document.isPrivate) {
-    if (!rawKey || !document.rawAccessKey || rawKey !== document.rawAccessKey) {
-      throw forbidden("owner token required");
+  let share: ShareTokenPayload | null = null;
+  if (!(await canRead(c, document))) {
+    const record = await store.getRecord(id);
+    const rawAccessKey = record?.metadata.rawAccessKey;
+    const hasRawKey = Boolean(rawKey && rawAccessKey && rawKey === rawAccessKey);
+    if (!hasRawKey) {
+      share = await getSharePayload(c, id);
+      if (!share) throw readDenied(document);
+      if (share.access !== "raw") throw forbidden("share token does not grant raw access");
     }
   }
 
+  const requestedVersionId = versionId ?? share?.versionId;
+  if (share && requestedVersionId && !shareAllowsVersion(share, requestedVersionId)) {
+    throw forbidden("share token does not grant this version");
+  }
+
   let version = document.versions[0];
-  if (versionId) {
-    const found = document.versions.find((v) => v.versionId === versionId);
+  if (requestedVersionId) {
+    const found = await store.findVersion(id, requestedVersionId);
     if (!found) throw notFound();
     version = found;
   }
 
-  const fullVersion = await store.getVersion(id, version.versionId);
-  if (!fullVersion) throw notFound();
+  const files = versionFiles(version, document.title);
+  const file = filename ? files.find((candidate) => candidate.name === filename) : files[0];
+  if (!file) throw notFound("file not found");
 
-  return new Response(fullVersion.content, {
-    headers: {
-      "content-type": "text/plain; charset=utf-8",
-      "content-disposition": `inline; filename="${document.title}.txt"`,
-    },
-  });
+  const range = parseRangeHeader(c.req.header("range"), file.size);
+  if (range === "unsatisfiable") {
+    return new Response(null, {
+      status: 416,
+      headers: { "content-range": `bytes */${file.size}` },
+    });
+  }
+
+  const versionBody = await store.openVersion(id, version.versionId, range, file.name);
+  if (!versionBody) throw notFound();
+
+  if (share) {
+    await store.recordShareView(id, share.shareId);
+  }
+  // The last read deletes the blobs, so buffer the body before counting it.
+  const body = document.maxReads ? await new Response(versionBody.body).arrayBuffer() : versionBody.body;
+  await consumeRead(c, document);
+
+  const contentType = file.contentType ?? TEXT_CONTENT_TYPE;
+  const isText = isTextContentType(contentType);
+  const disposition =
+    c.req.query("download") !== undefined || !(isText || isImageContentType(contentType))
+      ? "attachment"
+      : "inline";
+  const headers: Record<string, string> = {
+    "content-type": contentType,
+    "content-disposition": getContentDisposition(
+      isText && !/\.[a-z0-9]+$/i.test(file.name) ? `${file.name}.txt` : file.name,
+      disposition
+    ),
+    "content-security-policy": "sandbox",
+    "x-content-type-options": "nosniff",
+    "content-length": String(range ? range.length : file.size),
+    "accept-ranges": "bytes",
+    // The version hash, not the file's, so that it can be sent back as `If-Match` on update.
+    etag: `"${version.hash}"`,
+    "x-version-id": version.versionId,
+  };
+  if (document.maxReads) {
+    headers["cache-control"] = "no-store";
+  }
+  if (range) {
+    headers["content-range"] = `bytes ${range.offset}-${range.offset + range.length - 1}/${file.size}`;
+  }
+
+  return new Response(body, { status: range ? 206 : 200, headers });
+}
+
+app.get("/api/documents/:id/raw", serveRaw);
+app.get("/api/documents/:id/raw/:filename", serveRaw);
+
+app.post("/api/documents/:id/unlock", async (c) => {
+  const store = c.get("store");
+  const { id } = c.req.param();
+  requireScope(c, "documents:read", id);
+  const body = await parseJsonRequest<UnlockDocumentRequest>(c.req.raw);
+  if (typeof body.password !== "string" || !body.password) {
+    throw badRequest("password required");
+  }
+
+  const record = await store.getRecord(id);
+  if (!record) throw notFound();
+  const { passwordHash, passwordSalt } = record.metadata;
+  if (!passwordHash || !passwordSalt) throw badRequest("document is not password protected");
+  if (!(await verifyPassword(body.password, passwordSalt, passwordHash))) {
+    throw unauthorized("incorrect password", { passwordRequired: true });
+  }
+
+  const expiresAt = Date.now() + UNLOCK_TOKEN_TTL_MS;
+  const token = await createUnlockToken(
+    { documentId: id, expiresAt },
+    getShareSecret(c.env),
+    passwordSalt
+  );
+  return jsonResponse<UnlockDocumentResponse>({ token, expiresAt });
 });
 
 app.post("/api/documents/:id/share", async (c) => {
   const store = c.get("store");
   const { id } = c.req.param();
-  const viewerToken = getHeaderToken(c.req.raw);
-  const document = await store.getDocument(id, viewerToken);
-  if (!document) throw notFound();
-
-  if (!document.isOwner) throw forbidden("owner token required");
+  requireScope(c, "documents:write", id);
+  const document = await requireOwner(c, id);
 
-  const body = await parseJsonRequest<{ expiresInMinutes?: number }>(c.req.raw);
+  const body = await parseJsonRequest<CreateShareRequest>(c.req.raw);
   const expiresIn = Math.min(Math.max(body.expiresInMinutes ?? 60, 1), 60 * 24 * 7);
-  const secret = c.env.SHARE_SECRET ?? "default-secret";
-  const payload = {
+  const access = body.access ?? "raw";
+  if (access !== "raw" && access !== "metadata") {
+    throw badRequest("access must be raw or metadata");
+  }
+  if (body.versionId && !(await c.get("store").findVersion(id, body.versionId))) {
+    throw notFound("version not found");
+  }
+  if (body.maxViews !== undefined && (!Number.isInteger(body.maxViews) || body.maxViews < 1)) {
+    throw badRequest("maxViews must be a positive integer");
+  }
+  const share = await store.createShare(id, {
+    // A share never outlives the document it points at.
+    expiresAt: Math.min(
+      Date.now() + expiresIn * 60 * 1000,
+      document.expiresAt ? Date.parse(document.expiresAt) : Infinity
+    ),
+    access,
+    versionId: body.versionId || undefined,
+    label: body.label,
+    maxViews: body.maxViews,
+  });
+  const payload: ShareTokenPayload = {
     documentId: id,
-    expiresAt: Date.now() + expiresIn * 60 * 1000,
+    shareId: share.id,
+    expiresAt: share.expiresAt,
+    access: share.access,
+    versionId: share.versionId,
   };
-  const token = await createShareToken(payload, secret);
+  const token = await createShareToken(payload, getShareSecret(c.env));
   const baseUrl = new URL(c.req.url);
-  const latestVersion = document.versions[0];
-  const shareUrl = getRawUrl(baseUrl, id, latestVersion.versionId, token);
-  return jsonResponse({ token, shareUrl, expiresAt: payload.expiresAt });
+  const shareUrl = getRawUrl(baseUrl, id, payload.versionId, token);
+  const viewUrl = getShareViewUrl(baseUrl, token);
+  return jsonResponse<CreateShareResponse>({
+    token,
+    shareUrl,
+    viewUrl,
+    expiresAt: payload.expiresAt,
+    share,
+  });
+});
+
+app.get("/api/documents/:id/shares", async (c) => {
+  const store = c.get("store");
+  const { id } = c.req.param();
+  requireScope(c, "documents:read", id);
+  await requireOwner(c, id);
+  const shares = await store.listShares(id);
+  return jsonResponse<ShareListResponse>({ shares });
+});
+
+app.delete("/api/documents/:id/shares", async (c) => {
+  const store = c.get("store");
+  const { id } = c.req.param();
+  requireScope(c, "documents:write", id);
+  await requireOwner(c, id);
+  const revoked = await store.revokeAllShares(id);
+  return jsonResponse({ ok: true, revoked: revoked.length });
+});
+
+app.delete("/api/documents/:id/shares/:shareId", async (c) => {
+  const store = c.get("store");
+  const { id, shareId } = c.req.param();
+  requireScope(c, "documents:write", id);
+  await requireOwner(c, id);
+
+  try {
+    const share = await store.revokeShare(id, shareId);
+    return jsonResponse(share);
+  } catch (error) {
+    if (error instanceof Error && error.message === "NOT_FOUND") {
+      throw notFound("share not found");
+    }
+    throw error;
+  }
 });
 
 app.get("/api/share", async (c) => {
   const token = c.req.query("token");
   if (!token) throw badRequest("token required");
-  const secret = c.env.SHARE_SECRET ?? "default-secret";
-  const payload = await verifyShareToken(token, secret);
+  const store = c.get("store");
+  const payload = await verifyShareToken(token, getShareSecret(c.env), store);
   if (!payload) throw badRequest("invalid token");
 
-  const store = c.get("store");
   const document = await store.getDocument(payload.documentId);
   if (!document) throw notFound();
 
-  if (document.isPrivate) {
-    throw forbidden("owner token required");
+  const shared = await restrictToShare(c, document, payload);
+  // Burn-after-read content waits for an explicit `reveal=1` so that loading the page spends nothing.
+  if (document.maxReads && c.req.query("reveal") !== "1") {
+    return jsonResponse<SharedDocumentResponse>({
+      document: shared,
+      access: payload.access,
+      versionId: payload.versionId,
+      expiresAt: payload.expiresAt,
+    });
   }
+  let content: string | undefined;
+  let files: DocumentFile[] | undefined;
+  if (payload.access === "raw" && shared.versions.length && isTextContentType(shared.versions[0].contentType)) {
+    const version = await store.getVersion(document.id, shared.versions[0].versionId);
+    if (!version) throw notFound();
+    content = version.content;
+    files = version.files;
+    await consumeRead(c, document);
+  }
+  // Every opened share link counts, including metadata-only and binary shares.
+  await store.recordShareView(document.id, payload.shareId);
 
-  return jsonResponse(document);
+  return jsonResponse<SharedDocumentResponse>({
+    document: shared,
+    access: payload.access,
+    versionId: payload.versionId,
+    expiresAt: payload.expiresAt,
+    content,
+    files,
+  });
 });
 
 export { app };
@@ -0,0 +1,177 @@
+import type { StorageBackend } from "./backend";
+import type { SearchSnippet } from "./types";
+
+const TERM_KEY_PREFIX = "term:";
+const TERM_LIST_KEY_PREFIX = "searchterms:";
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+// Each term costs a KV write per scope the first time a document contains it.
+const MAX_TERMS_PER_DOCUMENT = 200;
+const MAX_POSTINGS_PER_TERM = 1000;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 200;
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const HAN_PATTERN = /\p{Script=Han}+/gu;
+
+function termPrefix(scope: string, term: string): string {
+  return `${TERM_KEY_PREFIX}${scope}:${term}`;
+}
+
+function termKey(scope: string, term: string, documentId: string): string {
+  return `${termPrefix(scope, term)}:${documentId}`;
+}
+
+/** What a document's search keys were written for, so updates can remove exactly those. */
+interface IndexedTerms {
+  terms: string[];
+  scopes: string[];
+}
+
+function termListKey(documentId: string): string {
+  return `${TERM_LIST_KEY_PREFIX}${documentId}`;
+}
+
+/**
+ * Splits text into lowercase search terms. Chinese has no word breaks, so runs
+ * of Han characters are indexed as overlapping character pairs instead.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(WORD_PATTERN) ?? []) {
+    const han = word.match(HAN_PATTERN);
+    if (!han) {
+      if (word.length >= MIN_TERM_LENGTH && word.length <= MAX_TERM_LENGTH) terms.push(word);
+      continue;
+    }
+    for (const part of word.split(HAN_PATTERN)) {
+      if (part.length >= MIN_TERM_LENGTH && part.length <= MAX_TERM_LENGTH) terms.push(part);
+    }
+    for (const run of han) {
+      const chars = [...run];
+      if (chars.length === 1) terms.push(run);
+      for (let i = 0; i < chars.length - 1; i += 1) terms.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return terms;
+}
+
+/** Counts how often the query terms occur, for ranking. */
+export function countMatches(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.reduce((count, term) => {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      count += 1;
+      index = lower.indexOf(term, index + term.length);
+    }
+    return count;
+  }, 0);
+}
+
+/** Cuts a window around the first match and marks every match inside it. */
+export function createSnippet(text: string, terms: string[]): SearchSnippet | undefined {
+  const lower = text.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((index) => index !== -1)
+  );
+  if (!Number.isFinite(first)) return undefined;
+  const start = Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const window = lower.slice(start, end);
+  const highlights: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = window.indexOf(term);
+    while (index !== -1) {
+      highlights.push([index, index + term.length]);
+      index = window.indexOf(term, index + term.length);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+  const merged = highlights.reduce<Array<[number, number]>>((ranges, range) => {
+    const last = ranges[ranges.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else ranges.push([...range]);
+    return ranges;
+  }, []);
+  return {
+    text: text.slice(start, end),
+    highlights: merged,
+    truncatedStart: start > 0,
+    truncatedEnd: end < text.length,
+  };
+}
+
+function postingKeys(documentId: string, indexed: IndexedTerms | null): string[] {
+  if (!indexed) return [];
+  return indexed.scopes.flatMap((scope) => indexed.terms.map((term) => termKey(scope, term, documentId)));
+}
+
+/**
+ * Inverted index over document titles and latest content. Postings are kept
+ * per scope — `public`, `user:<id>` or `workspace:<id>` — as
+ * `term:<scope>:<term>:<id>` keys, so a scoped search only walks the documents
+ * it may return. The document's own term list lets updates write only what changed.
+ */
+export class SearchIndex {
+  constructor(private backend: StorageBackend) {}
+
+  async indexDocument(documentId: string, text: string, scopes: string[], expiration?: number): Promise<void> {
+    const terms = [...new Set(tokenize(text))].slice(0, MAX_TERMS_PER_DOCUMENT);
+    await this.write(documentId, { terms, scopes }, expiration);
+  }
+
+  /** Moves a document's postings after its visibility, owner or workspace changed. */
+  async rescopeDocument(documentId: string, scopes: string[], expiration?: number): Promise<void> {
+    const previous = await this.backend.getJson<IndexedTerms>(termListKey(documentId));
+    if (!previous) return;
+    await this.write(documentId, { terms: previous.terms, scopes }, expiration);
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    const previous = await this.backend.getJson<IndexedTerms>(termListKey(documentId));
+    await Promise.all([
+      ...postingKeys(documentId, previous).map((key) => this.backend.delete(key)),
+      this.backend.delete(termListKey(documentId)),
+    ]);
+  }
+
+  /**
+   * Ids of documents in `scope` containing every term. The last term also
+   * matches as a prefix so results appear while the user is still typing it.
+   */
+  async search(terms: string[], scope: string): Promise<string[]> {
+    let matches = null as Set<string> | null;
+    for (const [i, term] of terms.entries()) {
+      const prefix = termPrefix(scope, term);
+      const ids = await this.postings(i === terms.length - 1 ? prefix : `${prefix}:`);
+      const previous = matches;
+      matches = new Set(previous ? ids.filter((id) => previous.has(id)) : ids);
+      if (!matches.size) break;
+    }
+    return [...(matches ?? [])];
+  }
+
+  private async write(documentId: string, next: IndexedTerms, expiration?: number) {
+    const previous = new Set(
+      postingKeys(documentId, await this.backend.getJson<IndexedTerms>(termListKey(documentId)))
+    );
+    const keys = new Set(postingKeys(documentId, next));
+    await Promise.all([
+      ...[...keys].filter((key) => !previous.has(key)).map((key) => this.backend.put(key, "", { expiration })),
+      ...[...previous].filter((key) => !keys.has(key)).map((key) => this.backend.delete(key)),
+      this.backend.put(termListKey(documentId), JSON.stringify(next), { expiration }),
+    ]);
+  }
+
+  private async postings(prefix: string): Promise<string[]> {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.backend.list({ prefix, cursor });
+      ids.push(...page.keys.map((key) => key.slice(key.lastIndexOf(":") + 1)));
+      cursor = page.cursor;
+    } while (cursor && ids.length < MAX_POSTINGS_PER_TERM);
+    return ids;
+  }
+}
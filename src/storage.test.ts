@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryDurableObjectBackend, createMemoryKVBackend, MemoryBucket } from "./memory";
+import { DocumentStore } from "./storage";
+import type { StorageBackend } from "./backend";
+
+const backends: [string, () => StorageBackend][] = [
+  ["KV", createMemoryKVBackend],
+  ["Durable Object", createMemoryDurableObjectBackend],
+];
+
+describe.each(backends)("DocumentStore on the %s backend", (_name, createBackend) => {
+  it("creates, updates and reads back versions", async () => {
+    const store = new DocumentStore(createBackend(), 1_000_000);
+    const { metadata } = await store.createDocument({ title: "notes", content: "first" });
+    await store.updateDocument(metadata.id, { content: "second" });
+
+    const document = await store.getDocument(metadata.id);
+    expect(document?.versions).toHaveLength(2);
+    const [head, base] = document!.versions;
+    expect((await store.getVersion(metadata.id, head.versionId))?.content).toBe("second");
+    expect((await store.getVersion(metadata.id, base.versionId))?.content).toBe("first");
+  });
+
+  it("rejects updates against a stale base version", async () => {
+    const store = new DocumentStore(createBackend(), 1_000_000);
+    const { metadata, version } = await store.createDocument({ title: "notes", content: "first" });
+    await store.updateDocument(metadata.id, { content: "second" });
+
+    await expect(
+      store.updateDocument(metadata.id, { content: "third", baseVersionId: version.metadata.versionId })
+    ).rejects.toThrow("CONFLICT");
+  });
+
+  it("keeps delta chains short once retention holds the version count steady", async () => {
+    const store = new DocumentStore(createBackend(), 1_000_000, undefined, undefined, { keepLast: 12 });
+    const body = (n: number) => Array.from({ length: 50 }, (_, line) => `line ${line}`).join("\n") + `\nsave ${n}`;
+    const { metadata } = await store.createDocument({ title: "notes", content: body(0), visibility: "unlisted" });
+    for (let n = 1; n <= 40; n += 1) await store.updateDocument(metadata.id, { content: body(n) });
+
+    const { versions } = (await store.getDocument(metadata.id))!;
+    expect(versions).toHaveLength(12);
+    let chain = 0;
+    let longest = 0;
+    for (const version of versions) {
+      chain = version.storage === "delta" ? chain + 1 : 0;
+      longest = Math.max(longest, chain);
+    }
+    expect(longest).toBeGreaterThan(0);
+    expect(longest).toBeLessThan(10);
+    const oldest = versions[versions.length - 1];
+    expect((await store.getVersion(metadata.id, oldest.versionId))?.content).toBe(body(29));
+  });
+
+  it("keeps large bodies in the bucket until the last reference is swept", async () => {
+    const bucket = new MemoryBucket();
+    const store = new DocumentStore(createBackend(), 1_000_000, bucket, 100);
+    const content = "x".repeat(200);
+    const first = await store.createDocument({ title: "a", content, visibility: "unlisted" });
+    const second = await store.createDocument({ title: "b", content, visibility: "unlisted" });
+    const [version] = first.metadata.versions;
+    expect(version.storage).toBe("bucket");
+
+    const opened = await store.openVersion(first.metadata.id, version.versionId, { offset: 10, length: 5 });
+    expect(await new Response(opened!.body).text()).toBe("xxxxx");
+
+    await store.deleteDocument(first.metadata.id);
+    await store.deleteDocument(second.metadata.id);
+    const later = Date.now() + 2 * 60 * 60 * 1000;
+    const now = Date.now;
+    Date.now = () => later;
+    try {
+      expect(await store.sweepReleasedBlobs()).toEqual({ deleted: 1, complete: true });
+    } finally {
+      Date.now = now;
+    }
+    expect(await bucket.head(`blobs/${version.hash}`)).toBeNull();
+  });
+});
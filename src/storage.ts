@@ -1,45 +1,401 @@
 import { nanoid } from "nanoid";
+import { applyPatch, createPatch } from "diff";
+import { createStorageBackend } from "./backend";
+import type { BlobBucket, ByteRange, StorageBackend, StoredContent } from "./backend";
+import { createPasswordSalt, hashPassword } from "./auth";
+import { BINARY_CONTENT_TYPE, TEXT_CONTENT_TYPE, isTextContentType } from "./mime";
+import type { Env } from "./router";
+import { WorkspaceStore, hasRole } from "./workspaces";
+import { SearchIndex, countMatches, createSnippet, tokenize } from "./search";
 import type {
+  DocumentListFilter,
   DocumentListResponse,
+  DocumentSort,
   DocumentVersion,
   DocumentView,
+  ForkSource,
+  RetentionPolicy,
+  SearchResponse,
+  SearchResult,
+  ShareAccess,
+  ShareRecord,
   StoredDocumentMetadata,
+  VersionFile,
+  VersionListResponse,
+  VersionMetadata,
+  Visibility,
+  WorkspaceRole,
 } from "./types";
 
 const DOCUMENT_KEY_PREFIX = "doc:";
 const VERSION_KEY_PREFIX = "version:";
-const PUBLIC_INDEX_KEY = "documents:public:index";
-const OWNER_INDEX_PREFIX = "documents:owner:";
+const BLOB_KEY_PREFIX = "blob:";
+const BLOB_REF_KEY_PREFIX = "blobref:";
+const BLOB_RELEASE_KEY_PREFIX = "blobrelease:";
+// KV listings can lag writes by about a minute; a released blob waits well past that.
+const BLOB_RELEASE_GRACE_SECONDS = 60 * 60;
+const DELTA_KEY_PREFIX = "delta:";
+const SNAPSHOT_INTERVAL = 10;
+const BUCKET_BLOB_PREFIX = "blobs/";
+const DEFAULT_BUCKET_THRESHOLD = 1024 * 1024;
+const SHARE_KEY_PREFIX = "share:";
+const PUBLIC_INDEX_PREFIX = "idx:public:";
+const USER_INDEX_PREFIX = "idx:user:";
+const WORKSPACE_INDEX_PREFIX = "idx:workspace:";
+const LEGACY_OWNER_INDEX_PREFIX = "idx:owner:";
+const LEGACY_PUBLIC_INDEX_KEY = "documents:public:index";
+const LEGACY_OWNER_LIST_PREFIX = "documents:owner:";
+const MAX_INDEX_TIMESTAMP = 9_999_999_999_999;
+const SHARE_RECORD_GRACE_SECONDS = 60 * 60 * 24;
+const EXPIRY_KEY_PREFIX = "expiry:";
+const EXPIRED_DOCUMENT_GRACE_SECONDS = 60 * 60 * 24;
+const MIN_KV_EXPIRATION_SECONDS = 60;
+const MAX_SEARCH_CANDIDATES = 50;
+const MAX_FILTER_SCAN = 500;
+const MAX_LABELS_PER_DOCUMENT = 50;
+const MAX_SORTED_LISTING = 500;
+const EMBEDDED_VERSION_COUNT = 20;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const TITLE_MATCH_WEIGHT = 5;
+const CIPHERTEXT_PATTERN = /^[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]+$/;
 
 interface DocumentRecord {
   metadata: StoredDocumentMetadata;
 }
 
-function ownerIndexKey(ownerToken: string): string {
-  return `${OWNER_INDEX_PREFIX}${ownerToken}`;
+export interface FileContent {
+  name: string;
+  content: StoredContent;
+  contentType?: string;
+}
+
+export interface VersionContent {
+  content?: StoredContent;
+  contentType?: string;
+  files?: FileContent[];
+}
+
+/** Optional notes recorded on the version a save creates. */
+export interface VersionAnnotation {
+  message?: string;
+  author?: string;
+}
+
+type BlobEntry = Pick<VersionFile, "hash" | "storage">;
+
+function userIndexPrefix(userId: string): string {
+  return `${USER_INDEX_PREFIX}${userId}:`;
+}
+
+function workspaceIndexPrefix(workspaceId: string): string {
+  return `${WORKSPACE_INDEX_PREFIX}${workspaceId}:`;
+}
+
+function visibilityOf(metadata: StoredDocumentMetadata): Visibility {
+  if (metadata.visibility) return metadata.visibility;
+  const hasOwner = Boolean(metadata.ownerId || metadata.ownerToken?.trim() || metadata.workspaceId);
+  return hasOwner ? "private" : "public";
+}
+
+function expiresAtSeconds(metadata: StoredDocumentMetadata): number | undefined {
+  return metadata.expiresAt ? Math.ceil(Date.parse(metadata.expiresAt) / 1000) : undefined;
+}
+
+/** Whether a document has expired or used up its reads, and must be treated as deleted. */
+function isGone(metadata: StoredDocumentMetadata): boolean {
+  const expiresAt = expiresAtSeconds(metadata);
+  if (expiresAt !== undefined && expiresAt * 1000 <= Date.now()) return true;
+  return Boolean(metadata.maxReads && (metadata.reads ?? 0) >= metadata.maxReads);
+}
+
+/**
+ * KV expiration for the keys an expiring document stores. They outlive
+ * `expiresAt` by a grace period so the expiry sweep can still find the
+ * document's shared blobs and release them.
+ */
+function documentExpiration(metadata: StoredDocumentMetadata): number | undefined {
+  const expiresAt = expiresAtSeconds(metadata);
+  return expiresAt === undefined ? undefined : expiresAt + EXPIRED_DOCUMENT_GRACE_SECONDS;
+}
+
+function expiryKey(metadata: StoredDocumentMetadata): string {
+  return `${EXPIRY_KEY_PREFIX}${String(expiresAtSeconds(metadata)).padStart(10, "0")}:${metadata.id}`;
+}
+
+/**
+ * Listings past the plain recency index page with their own cursor: where the
+ * index cursor stopped and how many matches of that page were already returned,
+ * or an offset into the sorted window.
+ */
+interface ListCursor {
+  index?: string;
+  skip?: number;
+  offset?: number;
+}
+
+function encodeListCursor(cursor: ListCursor): string {
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeListCursor(cursor: string | undefined): ListCursor {
+  if (!cursor) return {};
+  try {
+    const parsed = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof parsed === "object" && parsed ? (parsed as ListCursor) : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Reads `VERSION_RETENTION`, the default policy for documents without their
+ * own, e.g. `{"keepLast": 50, "keepDays": 90}`. Unset keeps every version.
+ */
+export function parseRetentionPolicy(value: string | undefined): RetentionPolicy {
+  if (!value?.trim()) return {};
+  const parsed = JSON.parse(value) as RetentionPolicy;
+  for (const rule of ["keepLast", "keepDays"] as const) {
+    const limit = parsed[rule];
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new Error(`VERSION_RETENTION ${rule} must be a positive integer, got ${JSON.stringify(limit)}`);
+    }
+  }
+  return { keepLast: parsed.keepLast, keepDays: parsed.keepDays };
+}
+
+/** Which of `metadata.versions` a policy keeps, index for index. */
+function retainedVersions(metadata: StoredDocumentMetadata, policy: RetentionPolicy): boolean[] {
+  const labeled = new Set(Object.values(metadata.labels ?? {}));
+  const cutoff = policy.keepDays ? Date.now() - policy.keepDays * MS_PER_DAY : undefined;
+  return metadata.versions.map(
+    (version, index) =>
+      index === 0 ||
+      labeled.has(version.versionId) ||
+      (!policy.keepLast && !policy.keepDays) ||
+      (policy.keepLast !== undefined && index < policy.keepLast) ||
+      (cutoff !== undefined && Date.parse(version.createdAt) >= cutoff)
+  );
+}
+
+function annotationOf(input: VersionAnnotation): VersionAnnotation {
+  return {
+    message: input.message?.trim() || undefined,
+    author: input.author?.trim() || undefined,
+  };
+}
+
+function matchesFilter(document: DocumentView, filter: DocumentListFilter): boolean {
+  if (filter.tag && !document.tags?.includes(filter.tag)) return false;
+  if (
+    filter.folder &&
+    document.folder !== filter.folder &&
+    !document.folder?.startsWith(`${filter.folder}/`)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+const SORT_KEYS: Record<DocumentSort, (document: DocumentView) => string | number> = {
+  updated: (document) => document.updatedAt,
+  created: (document) => document.createdAt,
+  title: (document) => document.title.toLowerCase(),
+  size: (document) => document.size,
+};
+
+function legacyOwnerIndexPrefix(ownerToken: string): string {
+  return `${LEGACY_OWNER_INDEX_PREFIX}${encodeURIComponent(ownerToken)}:`;
+}
+
+function indexEntryKey(prefix: string, entry: { id: string; updatedAt: string }): string {
+  const sortKey = String(MAX_INDEX_TIMESTAMP - Date.parse(entry.updatedAt)).padStart(13, "0");
+  return `${prefix}${sortKey}:${entry.id}`;
+}
+
+function legacyVersionKey(documentId: string, versionId: string): string {
+  return `${VERSION_KEY_PREFIX}${documentId}:${versionId}`;
+}
+
+function blobKey(hash: string): string {
+  return `${BLOB_KEY_PREFIX}${hash}`;
+}
+
+function blobReleaseKey(hash: string): string {
+  return `${BLOB_RELEASE_KEY_PREFIX}${hash}`;
+}
+
+function blobRefPrefix(hash: string): string {
+  return `${BLOB_REF_KEY_PREFIX}${hash}:`;
+}
+
+function blobRefKey(hash: string, documentId: string, versionId: string): string {
+  return `${blobRefPrefix(hash)}${documentId}:${versionId}`;
+}
+
+function bucketBlobKey(hash: string): string {
+  return `${BUCKET_BLOB_PREFIX}${hash}`;
+}
+
+function deltaKey(documentId: string, versionId: string): string {
+  return `${DELTA_KEY_PREFIX}${documentId}:${versionId}`;
+}
+
+function contentBytes(content: StoredContent): Uint8Array<ArrayBuffer> {
+  return typeof content === "string" ? new TextEncoder().encode(content) : new Uint8Array(content);
+}
+
+function isBinaryVersion(version: VersionMetadata): boolean {
+  return !isTextContentType(version.contentType);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function encodeContent(content: StoredContent): { content: string; encoding?: "base64" } {
+  if (typeof content === "string") return { content };
+  return { content: toBase64(new Uint8Array(content)), encoding: "base64" };
+}
+
+function toDocumentVersion(metadata: VersionMetadata, input: VersionContent): DocumentVersion {
+  if (!input.files) return { metadata, ...encodeContent(input.content ?? "") };
+  const files = input.files.map((file, i) => ({
+    name: file.name,
+    contentType: metadata.files?.[i]?.contentType,
+    ...encodeContent(file.content),
+  }));
+  return { metadata, content: files[0]?.content ?? "", encoding: files[0]?.encoding, files };
+}
+
+function isCiphertext(input: VersionContent): boolean {
+  const contents = input.files ? input.files.map((file) => file.content) : [input.content ?? ""];
+  return contents.every((content) => typeof content === "string" && CIPHERTEXT_PATTERN.test(content));
+}
+
+/** Ciphertext says nothing about the original type, so encrypted content is stored as text. */
+function sealedContent<T extends VersionContent>(input: T): T {
+  if (!isCiphertext(input)) throw new Error("INVALID_CIPHERTEXT");
+  return {
+    ...input,
+    contentType: TEXT_CONTENT_TYPE,
+    files: input.files?.map((file) => ({ ...file, contentType: TEXT_CONTENT_TYPE })),
+  };
+}
+
+/** Titles and text content are searchable; ciphertext and binary files are not. */
+function searchableText(title: string, input: VersionContent, encrypted?: boolean): string {
+  if (encrypted) return title;
+  const contents = input.files ? input.files.map((file) => file.content) : [input.content ?? ""];
+  return [title, ...contents.filter((content): content is string => typeof content === "string")].join("\n");
+}
+
+/** Which searches may return a document: public search, its owner's or its workspace's. */
+function searchScopes(metadata: StoredDocumentMetadata): string[] {
+  const scopes = visibilityOf(metadata) === "public" ? ["public"] : [];
+  if (metadata.workspaceId) scopes.push(`workspace:${metadata.workspaceId}`);
+  else if (metadata.ownerId) scopes.push(`user:${metadata.ownerId}`);
+  return scopes;
+}
+
+function inputSize(input: VersionContent): number {
+  const contents = input.files ? input.files.map((file) => file.content) : [input.content ?? ""];
+  return contents.reduce((total, content) => total + contentBytes(content).byteLength, 0);
+}
+
+/**
+ * Lists the files a version holds. Single-file versions expose their content
+ * as one file named after the version title.
+ */
+export function versionFiles(version: VersionMetadata, fallbackName: string): VersionFile[] {
+  if (version.files) return version.files;
+  return [
+    {
+      name: version.title ?? fallbackName,
+      size: version.size,
+      hash: version.hash,
+      contentType: version.contentType,
+      storage: version.storage,
+    },
+  ];
+}
+
+function sharePrefix(documentId: string): string {
+  return `${SHARE_KEY_PREFIX}${documentId}:`;
+}
+
+function shareKey(documentId: string, shareId: string): string {
+  return `${sharePrefix(documentId)}${shareId}`;
+}
+
+export interface VersionBody {
+  metadata: VersionMetadata;
+  body: ReadableStream;
+  range?: ByteRange;
+}
+
+export function createDocumentStore(env: Env): DocumentStore {
+  return new DocumentStore(
+    createStorageBackend(env),
+    Number(env.MAX_FILE_SIZE),
+    env.CONTENT_BUCKET,
+    Number(env.BUCKET_THRESHOLD) || DEFAULT_BUCKET_THRESHOLD,
+    parseRetentionPolicy(env.VERSION_RETENTION)
+  );
 }
 
 export class DocumentStore {
-  constructor(private kv: KVNamespace, private maxSize: number) {}
-
-  async createDocument(input: {
-    title: string;
-    content: string;
-    ownerToken?: string;
-  }): Promise<{ metadata: DocumentView; version: DocumentVersion }> {
-    this.assertSize(input.content);
-    const ownerToken = input.ownerToken?.trim() ? input.ownerToken.trim() : undefined;
+  private workspaces: WorkspaceStore;
+  private searchIndex: SearchIndex;
+
+  constructor(
+    private backend: StorageBackend,
+    private maxSize: number,
+    private bucket?: BlobBucket,
+    private bucketThreshold = DEFAULT_BUCKET_THRESHOLD,
+    private retention: RetentionPolicy = {}
+  ) {
+    this.workspaces = new WorkspaceStore(backend);
+    this.searchIndex = new SearchIndex(backend);
+  }
+
+  async createDocument(
+    input: VersionContent &
+      VersionAnnotation & {
+      title: string;
+      ownerId?: string;
+      workspaceId?: string;
+      visibility?: Visibility;
+      password?: string;
+      expiresAt?: string;
+      maxReads?: number;
+      encrypted?: boolean;
+      tags?: string[];
+      folder?: string;
+      forkedFrom?: ForkSource;
+    }
+  ): Promise<{ metadata: DocumentView; version: DocumentVersion }> {
+    this.assertSize(input);
+    if (input.encrypted) input = sealedContent(input);
+    const ownerId = input.ownerId;
+    const role = input.workspaceId
+      ? await this.requireRole(input.workspaceId, ownerId, "editor")
+      : undefined;
+    // Listed burn-after-read documents would be burned by whoever browses the list first.
+    const visibility =
+      input.visibility ?? (ownerId || input.workspaceId ? "private" : input.maxReads ? "unlisted" : "public");
+    // Anyone may update an anonymous document, so it cannot keep readers out.
+    if ((visibility === "private" || visibility === "password") && !ownerId) {
+      throw new Error("INVALID_VISIBILITY");
+    }
+    if (visibility === "public" && input.maxReads) throw new Error("INVALID_VISIBILITY");
     const id = nanoid(12);
-    const versionId = nanoid(10);
     const now = new Date().toISOString();
-    const size = new TextEncoder().encode(input.content).byteLength;
-    const hash = await this.hashContent(input.content);
-    const versionMetadata = {
-      versionId,
-      createdAt: now,
-      size,
-      hash,
-    };
+    const versionMetadata = { ...(await this.describeVersion(input, now, input.title)), ...annotationOf(input) };
+    const size = versionMetadata.size;
 
     const stored: StoredDocumentMetadata = {
       id,
@@ -48,262 +404,1357 @@ export class DocumentStore {
       updatedAt: now,
       size,
       versions: [versionMetadata],
-      ownerToken,
-      rawAccessKey: ownerToken ? nanoid(16) : undefined,
+      ownerId,
+      rawAccessKey: ownerId ? nanoid(16) : undefined,
+      workspaceId: input.workspaceId,
+      visibility,
+      expiresAt: input.expiresAt,
+      maxReads: input.maxReads,
+      reads: input.maxReads ? 0 : undefined,
+      encrypted: input.encrypted || undefined,
+      tags: input.tags,
+      folder: input.folder,
+      forkedFrom: input.forkedFrom,
     };
+    await this.setPassword(stored, visibility === "password" ? input.password : undefined);
 
     const tasks: Promise<unknown>[] = [
       this.putRecord(id, stored),
-      this.putVersion(id, versionId, input.content),
-      this.updatePublicIndex(stored.id, !ownerToken),
+      this.putVersion(id, versionMetadata, input, documentExpiration(stored)),
+      this.reindex(stored),
+      this.searchIndex.indexDocument(
+        id,
+        searchableText(stored.title, input, stored.encrypted),
+        searchScopes(stored),
+        documentExpiration(stored)
+      ),
     ];
-
-    if (ownerToken) {
-      tasks.push(this.touchOwnerIndex(ownerToken, stored.id));
+    if (stored.expiresAt) {
+      tasks.push(
+        this.backend.put(expiryKey(stored), "", {
+          expiration: documentExpiration(stored)! + EXPIRED_DOCUMENT_GRACE_SECONDS,
+        })
+      );
     }
-
     await Promise.all(tasks);
 
     return {
-      metadata: this.toView(stored, ownerToken),
-      version: { metadata: versionMetadata, content: input.content },
+      metadata: this.toView(stored, ownerId, role),
+      version: toDocumentVersion(versionMetadata, input),
     };
   }
 
   async updateDocument(
     id: string,
-    input: {
-      content: string;
-      ownerToken?: string;
+    input: VersionContent &
+      VersionAnnotation & {
+      title?: string;
+      ownerId?: string;
+      baseVersionId?: string;
+      baseHash?: string;
+      restoredFrom?: string;
     }
   ): Promise<{ metadata: DocumentView; version: DocumentVersion }> {
-    this.assertSize(input.content);
-    const record = await this.getRecord(id);
-    if (!record) throw new Error("NOT_FOUND");
-    const existingOwner = record.metadata.ownerToken?.trim()
-      ? record.metadata.ownerToken?.trim()
-      : undefined;
-    const ownerToken = input.ownerToken?.trim() ? input.ownerToken.trim() : undefined;
+    return this.backend.withDocumentLock(id, async () => {
+      this.assertSize(input);
+      const record = await this.getRecord(id);
+      if (!record) throw new Error("NOT_FOUND");
+      const { existingOwner, ownerId, role } = await this.authorize(
+        record.metadata,
+        input.ownerId,
+        "editor"
+      );
+      if (record.metadata.encrypted) input = sealedContent(input);
 
-    if (existingOwner) {
-      if (existingOwner !== ownerToken) throw new Error("FORBIDDEN");
-    } else if (ownerToken) {
-      throw new Error("FORBIDDEN");
-    }
+      const head = record.metadata.versions[0];
+      if (input.baseVersionId && input.baseVersionId !== head?.versionId) {
+        throw new Error("CONFLICT");
+      }
+      if (input.baseHash && input.baseHash !== head?.hash) {
+        throw new Error("CONFLICT");
+      }
+      const title = input.title?.trim() ? input.title.trim() : record.metadata.title;
 
-    const versionId = nanoid(10);
-    const now = new Date().toISOString();
-    const size = new TextEncoder().encode(input.content).byteLength;
-    const hash = await this.hashContent(input.content);
+      const now = new Date().toISOString();
+      const versionMetadata: VersionMetadata = {
+        ...(await this.describeVersion(input, now, title)),
+        restoredFrom: input.restoredFrom,
+        ...annotationOf(input),
+      };
+      const size = versionMetadata.size;
 
-    const versionMetadata = {
-      versionId,
-      createdAt: now,
-      size,
-      hash,
-    };
+      const previous = record.metadata.versions[0];
+      const previousUpdatedAt = record.metadata.updatedAt;
+      // Ciphertext never diffs against its predecessor, so encrypted versions stay whole.
+      const previousPatch =
+        previous &&
+        !record.metadata.encrypted &&
+        !previous.files &&
+        !input.files &&
+        typeof input.content === "string" &&
+        !isBinaryVersion(previous)
+          ? await this.createDeltaFor(record.metadata, input.content, versionMetadata.hash)
+          : null;
 
-    record.metadata.updatedAt = now;
-    record.metadata.size = size;
-    record.metadata.versions = [versionMetadata, ...record.metadata.versions];
+      record.metadata.title = title;
+      record.metadata.updatedAt = now;
+      record.metadata.size = size;
+      record.metadata.versions = [versionMetadata, ...record.metadata.versions];
 
-    if (existingOwner) {
-      record.metadata.rawAccessKey = nanoid(16);
-    }
+      if (existingOwner) {
+        record.metadata.rawAccessKey = nanoid(16);
+      }
 
-    const tasks: Promise<unknown>[] = [
-      this.putRecord(id, record.metadata),
-      this.putVersion(id, versionId, input.content),
-      this.updatePublicIndex(record.metadata.id, !existingOwner),
-    ];
-    if (existingOwner) {
-      tasks.push(this.touchOwnerIndex(existingOwner, record.metadata.id));
+      if (previous && previousPatch !== null) {
+        previous.storage = "delta";
+        previous.storedSize = new TextEncoder().encode(previousPatch).byteLength;
+      }
+
+      const tasks: Promise<unknown>[] = [
+        this.putRecord(id, record.metadata),
+        this.putVersion(id, versionMetadata, input, documentExpiration(record.metadata)),
+        this.reindex(record.metadata, previousUpdatedAt),
+        this.searchIndex.indexDocument(
+          id,
+          searchableText(title, input, record.metadata.encrypted),
+          searchScopes(record.metadata),
+          documentExpiration(record.metadata)
+        ),
+      ];
+      if (previous && previousPatch !== null) {
+        tasks.push(
+          this.backend.put(deltaKey(id, previous.versionId), previousPatch, {
+            expiration: documentExpiration(record.metadata),
+          })
+        );
+      }
+
+      await Promise.all(tasks);
+
+      if (previous && previousPatch !== null) {
+        await this.releaseBlob(id, previous);
+      }
+      await this.pruneVersions(record.metadata);
+
+      return {
+        metadata: this.toView(record.metadata, ownerId, role),
+        version: toDocumentVersion(versionMetadata, input),
+      };
+    });
+  }
+
+  async updateDocumentMetadata(
+    id: string,
+    input: {
+      title?: string;
+      ownerId?: string;
+      workspaceId?: string | null;
+      visibility?: Visibility;
+      password?: string;
+      tags?: string[];
+      folder?: string | null;
+      retention?: RetentionPolicy | null;
     }
+  ): Promise<DocumentView> {
+    return this.backend.withDocumentLock(id, async () => {
+      const record = await this.getRecord(id);
+      if (!record) throw new Error("NOT_FOUND");
+      const moving =
+        input.workspaceId !== undefined && (input.workspaceId ?? undefined) !== record.metadata.workspaceId;
+      const visibility = input.visibility ?? visibilityOf(record.metadata);
+      const changingAccess =
+        visibility !== visibilityOf(record.metadata) || (visibility === "password" && input.password !== undefined);
+      // Shortening retention deletes history, which only admins may do.
+      const changingRetention = input.retention !== undefined;
+      const access = await this.authorize(
+        record.metadata,
+        input.ownerId,
+        moving || changingAccess || changingRetention ? "admin" : "editor"
+      );
+      const ownerId = access.ownerId;
+      let role = access.role;
+      const previousUpdatedAt = record.metadata.updatedAt;
+      // Anonymous documents have nobody who could read them back if locked down.
+      if (changingAccess && !ownerId) throw new Error("FORBIDDEN");
+      if (moving || changingAccess) {
+        await this.unindex(record.metadata);
+      }
 
-    await Promise.all(tasks);
+      if (changingAccess) {
+        if (visibility === "password" && input.password === undefined && !record.metadata.passwordHash) {
+          throw new Error("PASSWORD_REQUIRED");
+        }
+        if (visibility === "public" && record.metadata.maxReads) throw new Error("INVALID_VISIBILITY");
+        record.metadata.visibility = visibility;
+        if (visibility !== "password" || input.password !== undefined) {
+          await this.setPassword(record.metadata, visibility === "password" ? input.password : undefined);
+        }
+      }
+      if (moving) {
+        // Moving changes who can see the document, so it needs full control on both sides.
+        if (!ownerId) throw new Error("FORBIDDEN");
+        role = input.workspaceId
+          ? await this.requireRole(input.workspaceId, ownerId, "editor")
+          : undefined;
+        record.metadata.workspaceId = input.workspaceId ?? undefined;
+        if (!record.metadata.workspaceId) record.metadata.ownerId = ownerId;
+      }
+      const renamed = Boolean(input.title?.trim()) && input.title!.trim() !== record.metadata.title;
+      if (input.title?.trim()) {
+        record.metadata.title = input.title.trim();
+      }
+      if (input.tags !== undefined) {
+        record.metadata.tags = input.tags.length ? input.tags : undefined;
+      }
+      if (input.folder !== undefined) {
+        record.metadata.folder = input.folder ?? undefined;
+      }
+      if (changingRetention) {
+        record.metadata.retention = input.retention ?? undefined;
+      }
+      record.metadata.updatedAt = new Date().toISOString();
 
-    return {
-      metadata: this.toView(record.metadata, ownerToken),
-      version: { metadata: versionMetadata, content: input.content },
-    };
+      await Promise.all([
+        this.putRecord(id, record.metadata),
+        this.reindex(record.metadata, moving || changingAccess ? undefined : previousUpdatedAt),
+      ]);
+      if (renamed) {
+        await this.searchIndex.indexDocument(
+          id,
+          `${record.metadata.title}\n${await this.latestText(record.metadata)}`,
+          searchScopes(record.metadata),
+          documentExpiration(record.metadata)
+        );
+      } else if (moving || changingAccess) {
+        await this.searchIndex.rescopeDocument(id, searchScopes(record.metadata), documentExpiration(record.metadata));
+      }
+      if (changingRetention) {
+        await this.pruneVersions(record.metadata);
+      }
+
+      return this.toView(record.metadata, ownerId, role);
+    });
   }
 
-  async deleteDocument(id: string, ownerToken?: string): Promise<void> {
-    const record = await this.getRecord(id);
-    if (!record) throw new Error("NOT_FOUND");
+  async deleteDocument(id: string, ownerId?: string): Promise<void> {
+    return this.backend.withDocumentLock(id, async () => {
+      const record = await this.getRecord(id);
+      if (!record) throw new Error("NOT_FOUND");
 
-    const existingOwner = record.metadata.ownerToken?.trim()
-      ? record.metadata.ownerToken.trim()
-      : undefined;
-    const token = ownerToken?.trim() ? ownerToken.trim() : undefined;
+      await this.authorize(record.metadata, ownerId, "admin");
+      await this.removeDocument(record.metadata);
+    });
+  }
 
-    if (existingOwner) {
-      if (existingOwner !== token) throw new Error("FORBIDDEN");
-    } else if (token) {
-      throw new Error("FORBIDDEN");
-    }
+  /**
+   * Counts one content read of a burn-after-read document and deletes it after
+   * the last one. Returns the reads left, or null when none were left to take.
+   */
+  async recordRead(id: string): Promise<number | null> {
+    return this.backend.withDocumentLock(id, async () => {
+      const record = await this.getRecord(id);
+      if (!record) return null;
+      const { metadata } = record;
+      if (!metadata.maxReads) return Infinity;
+      metadata.reads = (metadata.reads ?? 0) + 1;
+      const remaining = metadata.maxReads - metadata.reads;
+      if (remaining > 0) {
+        await this.putRecord(id, metadata);
+      } else {
+        await this.removeDocument(metadata);
+      }
+      return remaining;
+    });
+  }
 
-    const tasks: Promise<unknown>[] = [
-      this.deleteRecord(id),
-      this.updatePublicIndex(id, false),
-    ];
+  /**
+   * Deletes documents whose `expiresAt` has passed. KV drops their keys on its
+   * own, but shared blobs and bucket objects need their references released.
+   */
+  async purgeExpiredDocuments(limit = 100): Promise<{ purged: number; complete: boolean }> {
+    const page = await this.backend.list({ prefix: EXPIRY_KEY_PREFIX, limit });
+    let purged = 0;
+    for (const key of page.keys) {
+      const [expiresAt, id] = key.slice(EXPIRY_KEY_PREFIX.length).split(":");
+      if (Number(expiresAt) * 1000 > Date.now()) return { purged, complete: true };
+      await this.backend.withDocumentLock(id, async () => {
+        const stored = await this.backend.getJson<DocumentRecord>(`${DOCUMENT_KEY_PREFIX}${id}`);
+        if (stored && isGone(stored.metadata)) {
+          await this.removeDocument(stored.metadata);
+          purged += 1;
+        }
+      });
+      await this.backend.delete(key);
+    }
+    return { purged, complete: !page.cursor };
+  }
 
-    if (existingOwner) {
-      tasks.push(this.removeFromIndex(ownerIndexKey(existingOwner), id));
+  /**
+   * Deletes blobs released more than a grace period ago that still have no
+   * references. A blob reused in the meantime has its release mark cleared.
+   * Marks still within the grace period stay, so pass `cursor` to move past them.
+   */
+  async sweepReleasedBlobs(
+    limit = 100,
+    cursor?: string
+  ): Promise<{ deleted: number; complete: boolean; cursor?: string }> {
+    const page = await this.backend.list({ prefix: BLOB_RELEASE_KEY_PREFIX, limit, cursor });
+    let deleted = 0;
+    for (const key of page.keys) {
+      const releasedAt = Number(await this.backend.get(key));
+      if (releasedAt && releasedAt * 1000 > Date.now() - BLOB_RELEASE_GRACE_SECONDS * 1000) continue;
+      const hash = key.slice(BLOB_RELEASE_KEY_PREFIX.length);
+      const refs = await this.backend.list({ prefix: blobRefPrefix(hash), limit: 1 });
+      if (!refs.keys.length) {
+        await Promise.all([this.backend.delete(blobKey(hash)), this.bucket?.delete(bucketBlobKey(hash))]);
+        deleted += 1;
+      }
+      await this.backend.delete(key);
     }
+    return { deleted, complete: !page.cursor, cursor: page.cursor };
+  }
 
-    for (const version of record.metadata.versions) {
-      tasks.push(this.deleteVersion(id, version.versionId));
+  async createShare(
+    documentId: string,
+    input: {
+      expiresAt: number;
+      access: ShareAccess;
+      versionId?: string;
+      label?: string;
+      maxViews?: number;
     }
+  ): Promise<ShareRecord> {
+    const share: ShareRecord = {
+      id: nanoid(10),
+      documentId,
+      createdAt: new Date().toISOString(),
+      expiresAt: input.expiresAt,
+      label: input.label?.trim() ? input.label.trim() : undefined,
+      access: input.access,
+      versionId: input.versionId,
+      maxViews: input.maxViews,
+      views: 0,
+      revoked: false,
+    };
+    await this.putShare(share);
+    return share;
+  }
 
-    await Promise.all(tasks);
+  async getShare(documentId: string, shareId: string): Promise<ShareRecord | null> {
+    return this.backend.getJson<ShareRecord>(shareKey(documentId, shareId));
+  }
+
+  async listShares(documentId: string): Promise<ShareRecord[]> {
+    const keys = await this.listKeys(sharePrefix(documentId));
+    const shares = await Promise.all(keys.map((key) => this.backend.getJson<ShareRecord>(key)));
+    return shares
+      .filter((share): share is ShareRecord => Boolean(share))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async revokeShare(documentId: string, shareId: string): Promise<ShareRecord> {
+    return this.backend.withDocumentLock(documentId, async () => {
+      const share = await this.getShare(documentId, shareId);
+      if (!share) throw new Error("NOT_FOUND");
+      if (!share.revoked) {
+        share.revoked = true;
+        await this.putShare(share);
+      }
+      return share;
+    });
+  }
+
+  async revokeAllShares(documentId: string): Promise<ShareRecord[]> {
+    return this.backend.withDocumentLock(documentId, async () => {
+      const shares = await this.listShares(documentId);
+      const revoked = shares.filter((share) => !share.revoked);
+      await Promise.all(
+        revoked.map((share) => {
+          share.revoked = true;
+          return this.putShare(share);
+        })
+      );
+      return revoked;
+    });
+  }
+
+  async recordShareView(documentId: string, shareId: string): Promise<void> {
+    return this.backend.withDocumentLock(documentId, async () => {
+      const share = await this.getShare(documentId, shareId);
+      if (!share) return;
+      share.views += 1;
+      await this.putShare(share);
+    });
   }
 
-  async getDocument(id: string, viewerToken?: string): Promise<DocumentView | null> {
+  async getDocument(id: string, viewerId?: string): Promise<DocumentView | null> {
     const record = await this.getRecord(id);
     if (!record) return null;
-    return this.toView(record.metadata, viewerToken);
+    const role =
+      record.metadata.workspaceId && viewerId
+        ? await this.workspaces.roleOf(record.metadata.workspaceId, viewerId)
+        : null;
+    return this.toView(record.metadata, viewerId, role ?? undefined);
   }
 
   async getRecord(id: string): Promise<DocumentRecord | null> {
-    const stored = await this.kv.get<DocumentRecord>(`${DOCUMENT_KEY_PREFIX}${id}`, "json");
-    if (!stored) return null;
+    const stored = await this.backend.getJson<DocumentRecord>(`${DOCUMENT_KEY_PREFIX}${id}`);
+    if (!stored || isGone(stored.metadata)) return null;
     return stored;
   }
 
   async getVersion(id: string, versionId: string): Promise<DocumentVersion | null> {
-    const content = await this.kv.get(`${VERSION_KEY_PREFIX}${id}:${versionId}`);
-    if (!content) return null;
     const record = await this.getRecord(id);
     if (!record) return null;
-    const versionMetadata = record.metadata.versions.find((v) => v.versionId === versionId);
-    if (!versionMetadata) return null;
-    return { metadata: versionMetadata, content };
+    const index = record.metadata.versions.findIndex((v) => v.versionId === versionId);
+    if (index === -1) return null;
+    const input = await this.readVersionInput(id, record.metadata.versions, index);
+    return input && toDocumentVersion(record.metadata.versions[index], input);
+  }
+
+  /**
+   * Copies one version into a new document owned by `ownerId` and counts the
+   * fork on the source. The caller checks that the source may be read. A fork
+   * is never more visible than its source: owned forks are private, and
+   * anonymous ones can only be made of public or unlisted documents.
+   */
+  async forkDocument(
+    id: string,
+    input: { versionId?: string; title?: string; ownerId?: string }
+  ): Promise<{ metadata: DocumentView; version: DocumentVersion }> {
+    const record = await this.getRecord(id);
+    if (!record) throw new Error("NOT_FOUND");
+    // A copy would outlive the limits that made sharing the source acceptable.
+    if (record.metadata.expiresAt || record.metadata.maxReads) throw new Error("NOT_FORKABLE");
+    const sourceVisibility = visibilityOf(record.metadata);
+    if (!input.ownerId && sourceVisibility !== "public" && sourceVisibility !== "unlisted") {
+      throw new Error("OWNER_REQUIRED");
+    }
+    const versions = record.metadata.versions;
+    const index = input.versionId ? versions.findIndex((v) => v.versionId === input.versionId) : 0;
+    if (index === -1 || !versions[index]) throw new Error("VERSION_NOT_FOUND");
+    const content = await this.readVersionInput(id, versions, index);
+    if (!content) throw new Error("VERSION_NOT_FOUND");
+
+    const result = await this.createDocument({
+      ...content,
+      title: input.title?.trim() || versions[index].title || record.metadata.title,
+      ownerId: input.ownerId,
+      visibility: input.ownerId ? "private" : sourceVisibility,
+      encrypted: record.metadata.encrypted,
+      forkedFrom: { documentId: id, versionId: versions[index].versionId },
+    });
+    await this.backend.withDocumentLock(id, async () => {
+      const current = await this.getRecord(id);
+      if (!current) return;
+      current.metadata.forkCount = (current.metadata.forkCount ?? 0) + 1;
+      await this.putRecord(id, current.metadata);
+    });
+    return result;
+  }
+
+  /** Looks a version up in the full history, not just the entries a `DocumentView` embeds. */
+  async findVersion(id: string, versionId: string): Promise<VersionMetadata | null> {
+    const record = await this.getRecord(id);
+    return record?.metadata.versions.find((v) => v.versionId === versionId) ?? null;
+  }
+
+  /** Pages through the history newest first; the cursor is the last version id returned. */
+  async listVersions(id: string, limit: number, cursor?: string): Promise<VersionListResponse> {
+    const record = await this.getRecord(id);
+    if (!record) throw new Error("NOT_FOUND");
+    const versions = record.metadata.versions;
+    const start = cursor ? versions.findIndex((v) => v.versionId === cursor) + 1 : 0;
+    // The cursor's version was pruned since the previous page.
+    if (cursor && start === 0) throw new Error("INVALID_CURSOR");
+    const page = versions.slice(start, start + limit);
+    return {
+      versions: page,
+      cursor: start + limit < versions.length ? page[page.length - 1].versionId : undefined,
+    };
+  }
+
+  /**
+   * Saves the content of an earlier version as a new head. History is never
+   * rewritten, so the versions in between stay until retention prunes them.
+   */
+  async restoreVersion(
+    id: string,
+    versionId: string,
+    ownerId?: string,
+    annotation: VersionAnnotation = {}
+  ): Promise<{ metadata: DocumentView; version: DocumentVersion }> {
+    const record = await this.getRecord(id);
+    if (!record) throw new Error("NOT_FOUND");
+    const index = record.metadata.versions.findIndex((v) => v.versionId === versionId);
+    if (index === -1) throw new Error("VERSION_NOT_FOUND");
+    if (index === 0) throw new Error("ALREADY_LATEST");
+    const input = await this.readVersionInput(id, record.metadata.versions, index);
+    if (!input) throw new Error("VERSION_NOT_FOUND");
+    // The head we read from must still be the head when the restore is written.
+    return this.updateDocument(id, {
+      ...input,
+      ...annotation,
+      ownerId,
+      baseVersionId: record.metadata.versions[0].versionId,
+      restoredFrom: versionId,
+    });
+  }
+
+  /** Points a label at a version, moving it if it already exists, or removes it when `versionId` is null. */
+  async setLabel(
+    id: string,
+    label: string,
+    versionId: string | null,
+    ownerId?: string
+  ): Promise<DocumentView> {
+    return this.backend.withDocumentLock(id, async () => {
+      const record = await this.getRecord(id);
+      if (!record) throw new Error("NOT_FOUND");
+      const { ownerId: viewerId, role } = await this.authorize(record.metadata, ownerId, "editor");
+      const labels = { ...record.metadata.labels };
+      if (versionId === null) {
+        if (!(label in labels)) throw new Error("LABEL_NOT_FOUND");
+        delete labels[label];
+      } else {
+        if (!record.metadata.versions.some((v) => v.versionId === versionId)) {
+          throw new Error("VERSION_NOT_FOUND");
+        }
+        if (!(label in labels) && Object.keys(labels).length >= MAX_LABELS_PER_DOCUMENT) {
+          throw new Error("TOO_MANY_LABELS");
+        }
+        labels[label] = versionId;
+      }
+      record.metadata.labels = Object.keys(labels).length ? labels : undefined;
+      await this.putRecord(id, record.metadata);
+      return this.toView(record.metadata, viewerId, role);
+    });
+  }
+
+  async openVersion(
+    id: string,
+    versionId: string,
+    range?: ByteRange,
+    filename?: string
+  ): Promise<VersionBody | null> {
+    const record = await this.getRecord(id);
+    if (!record) return null;
+    const index = record.metadata.versions.findIndex((v) => v.versionId === versionId);
+    if (index === -1) return null;
+    const metadata = record.metadata.versions[index];
+    const file = metadata.files
+      ? metadata.files.find((candidate) => !filename || candidate.name === filename)
+      : undefined;
+    if (metadata.files && !file) return null;
+    const entry = file ?? metadata;
+
+    if (entry.storage === "bucket" && this.bucket) {
+      const object = await this.bucket.get(bucketBlobKey(entry.hash), range ? { range } : undefined);
+      if (object) return { metadata, body: object.body, range };
+    }
+
+    const content = file
+      ? await this.readBlob(file, !isTextContentType(file.contentType))
+      : isBinaryVersion(metadata)
+        ? await this.readBlob(metadata, true)
+        : await this.readVersionContent(id, record.metadata.versions, index);
+    if (content === null) return null;
+    const blob = new Blob([content]);
+    const body = range ? blob.slice(range.offset, range.offset + range.length) : blob;
+    return { metadata, body: body.stream(), range };
+  }
+
+  async migrateLegacyVersions(limit = 100): Promise<{ migrated: number; complete: boolean }> {
+    const page = await this.backend.list({ prefix: VERSION_KEY_PREFIX, limit });
+    let migrated = 0;
+    for (const key of page.keys) {
+      const [id, versionId] = key.slice(VERSION_KEY_PREFIX.length).split(":");
+      const record = id ? await this.getRecord(id) : null;
+      const versionMetadata = record?.metadata.versions.find((v) => v.versionId === versionId);
+      const content = versionMetadata ? await this.backend.get(key) : null;
+      if (!versionMetadata || versionMetadata.storage === "delta" || content === null) {
+        await this.backend.delete(key);
+        continue;
+      }
+      await this.migrateVersion(id, versionMetadata, content);
+      migrated += 1;
+    }
+    return { migrated, complete: !page.cursor };
   }
 
   async listPublicDocuments(
-    viewerToken: string | undefined,
+    viewerId: string | undefined,
     limit = 20,
-    cursor?: string
+    cursor?: string,
+    filter: DocumentListFilter = {}
   ): Promise<DocumentListResponse> {
-    const index = await this.getIndex(PUBLIC_INDEX_KEY);
-    const { slice, nextCursor } = this.sliceIndex(index, limit, cursor);
-    const documents = await this.loadViews(slice, viewerToken);
-    return { documents, cursor: nextCursor };
+    if (!cursor) {
+      await this.migrateLegacyIndex(LEGACY_PUBLIC_INDEX_KEY);
+    }
+    return this.listIndex(PUBLIC_INDEX_PREFIX, viewerId, limit, cursor, filter);
   }
 
   async listOwnerDocuments(
-    ownerToken: string | undefined,
+    ownerId: string | undefined,
     limit = 20,
-    cursor?: string
+    cursor?: string,
+    filter: DocumentListFilter = {}
   ): Promise<DocumentListResponse> {
-    if (!ownerToken) {
+    if (!ownerId) {
       return { documents: [], cursor: undefined };
     }
-    const index = await this.getIndex(ownerIndexKey(ownerToken));
-    const { slice, nextCursor } = this.sliceIndex(index, limit, cursor);
-    const documents = await this.loadViews(slice, ownerToken);
-    return { documents, cursor: nextCursor };
+    return this.listIndex(userIndexPrefix(ownerId), ownerId, limit, cursor, filter);
   }
 
-  private async loadViews(ids: string[], viewerToken?: string): Promise<DocumentView[]> {
-    const result: DocumentView[] = [];
-    for (const id of ids) {
-      const record = await this.getRecord(id);
-      if (!record) continue;
-      if (record.metadata.ownerToken && record.metadata.ownerToken !== viewerToken) {
-        continue;
+  async listWorkspaceDocuments(
+    workspaceId: string,
+    viewerId: string,
+    limit = 20,
+    cursor?: string,
+    filter: DocumentListFilter = {}
+  ): Promise<DocumentListResponse> {
+    await this.requireRole(workspaceId, viewerId, "viewer");
+    return this.listIndex(workspaceIndexPrefix(workspaceId), viewerId, limit, cursor, filter);
+  }
+
+  /**
+   * Finds documents whose title or latest content contains every query term,
+   * limited to the same scopes and visibility rules as the listings.
+   */
+  async searchDocuments(
+    query: string,
+    viewerId: string | undefined,
+    options: { scope?: "public" | "mine" | "workspace"; workspaceId?: string; limit?: number } = {}
+  ): Promise<SearchResponse> {
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length) return { results: [] };
+    if (options.scope === "workspace") {
+      await this.requireRole(options.workspaceId ?? "", viewerId, "viewer");
+    }
+
+    if (options.scope === "mine" && !viewerId) return { results: [] };
+    const scope =
+      options.scope === "mine"
+        ? `user:${viewerId}`
+        : options.scope === "workspace"
+          ? `workspace:${options.workspaceId}`
+          : "public";
+    const ids = (await this.searchIndex.search(terms, scope)).slice(0, MAX_SEARCH_CANDIDATES);
+    const records = (await Promise.all(ids.map((id) => this.getRecord(id)))).filter(
+      (record): record is DocumentRecord => {
+        if (!record) return false;
+        const { metadata } = record;
+        if (options.scope === "mine") return !metadata.workspaceId && metadata.ownerId === viewerId;
+        if (options.scope === "workspace") return metadata.workspaceId === options.workspaceId;
+        return visibilityOf(metadata) === "public";
       }
-      result.push(this.toView(record.metadata, viewerToken));
+    );
+    const documents = await this.visibleViews(records, viewerId);
+
+    const results = await Promise.all(
+      documents.map(async (document) => {
+        const metadata = records.find((record) => record.metadata.id === document.id)!.metadata;
+        const text = await this.latestText(metadata);
+        const score = countMatches(document.title, terms) * TITLE_MATCH_WEIGHT + countMatches(text, terms);
+        const result: SearchResult = { document, snippet: createSnippet(text, terms) };
+        return { result, score };
+      })
+    );
+    return {
+      results: results
+        .sort(
+          (a, b) =>
+            b.score - a.score || b.result.document.updatedAt.localeCompare(a.result.document.updatedAt)
+        )
+        .slice(0, options.limit ?? 20)
+        .map(({ result }) => result),
+    };
+  }
+
+  async hasLegacyOwner(ownerToken: string): Promise<boolean> {
+    const page = await this.backend.list({ prefix: legacyOwnerIndexPrefix(ownerToken), limit: 1 });
+    if (page.keys.length) return true;
+    return this.backend.has(`${LEGACY_OWNER_LIST_PREFIX}${ownerToken}`);
+  }
+
+  /** Moves every document owned by a raw pre-account token to the given user. */
+  async migrateLegacyOwner(ownerToken: string, ownerId: string): Promise<number> {
+    await this.migrateLegacyIndex(`${LEGACY_OWNER_LIST_PREFIX}${ownerToken}`);
+    let migrated = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await this.backend.list({ prefix: legacyOwnerIndexPrefix(ownerToken), cursor });
+      for (const key of page.keys) {
+        if (await this.assignOwner(key.slice(key.lastIndexOf(":") + 1), ownerToken, ownerId)) {
+          migrated += 1;
+        }
+        await this.backend.delete(key);
+      }
+      cursor = page.cursor;
+    } while (cursor);
+    return migrated;
+  }
+
+  async migrateLegacyOwners(
+    claim: (ownerToken: string) => Promise<string>,
+    limit = 100
+  ): Promise<{ migrated: number; complete: boolean }> {
+    const [indexed, listed] = await Promise.all([
+      this.backend.list({ prefix: LEGACY_OWNER_INDEX_PREFIX, limit }),
+      this.backend.list({ prefix: LEGACY_OWNER_LIST_PREFIX, limit }),
+    ]);
+    const tokens = new Set([
+      ...indexed.keys.map((key) =>
+        decodeURIComponent(key.slice(LEGACY_OWNER_INDEX_PREFIX.length).split(":")[0])
+      ),
+      ...listed.keys.map((key) => key.slice(LEGACY_OWNER_LIST_PREFIX.length)),
+    ]);
+    let migrated = 0;
+    for (const ownerToken of tokens) {
+      migrated += await this.migrateLegacyOwner(ownerToken, await claim(ownerToken));
     }
-    return result;
+    return { migrated, complete: !indexed.cursor && !listed.cursor };
+  }
+
+  /**
+   * Index keys sort by recency, so the default order pages straight through
+   * the index. Filters keep walking it until a page is full; any other order
+   * sorts the most recent `MAX_SORTED_LISTING` documents in memory and flags
+   * the response as truncated when older ones were left out.
+   */
+  private async listIndex(
+    prefix: string,
+    viewerId: string | undefined,
+    limit: number,
+    cursor?: string,
+    filter: DocumentListFilter = {}
+  ): Promise<DocumentListResponse> {
+    const sort = filter.sort ?? "updated";
+    const order = filter.order ?? (sort === "title" ? "asc" : "desc");
+    if (sort !== "updated" || order !== "desc") {
+      return this.listSorted(prefix, viewerId, limit, decodeListCursor(cursor), filter);
+    }
+    if (filter.tag || filter.folder) {
+      return this.listFiltered(prefix, viewerId, limit, decodeListCursor(cursor), filter);
+    }
+    const page = await this.backend.list({ prefix, limit, cursor });
+    return { documents: await this.pageViews(prefix, page.keys, viewerId), cursor: page.cursor };
+  }
+
+  private async listFiltered(
+    prefix: string,
+    viewerId: string | undefined,
+    limit: number,
+    cursor: ListCursor,
+    filter: DocumentListFilter
+  ): Promise<DocumentListResponse> {
+    const documents: DocumentView[] = [];
+    let index = cursor.index;
+    let skip = cursor.skip ?? 0;
+    let scanned = 0;
+    for (;;) {
+      const page = await this.backend.list({ prefix, limit, cursor: index });
+      const matches = (await this.pageViews(prefix, page.keys, viewerId))
+        .filter((document) => matchesFilter(document, filter))
+        .slice(skip);
+      const room = limit - documents.length;
+      if (matches.length > room) {
+        documents.push(...matches.slice(0, room));
+        return { documents, cursor: encodeListCursor({ index, skip: skip + room }) };
+      }
+      documents.push(...matches);
+      skip = 0;
+      scanned += page.keys.length;
+      if (!page.cursor) return { documents, cursor: undefined };
+      index = page.cursor;
+      // Sparse filters return short pages rather than scanning the whole index at once.
+      if (documents.length === limit || scanned >= MAX_FILTER_SCAN) {
+        return { documents, cursor: encodeListCursor({ index }) };
+      }
+    }
+  }
+
+  private async listSorted(
+    prefix: string,
+    viewerId: string | undefined,
+    limit: number,
+    cursor: ListCursor,
+    filter: DocumentListFilter
+  ): Promise<DocumentListResponse> {
+    const keys: string[] = [];
+    let index: string | undefined;
+    do {
+      const page = await this.backend.list({
+        prefix,
+        limit: MAX_SORTED_LISTING - keys.length,
+        cursor: index,
+      });
+      keys.push(...page.keys);
+      index = page.cursor;
+    } while (index && keys.length < MAX_SORTED_LISTING);
+
+    const sortKey = SORT_KEYS[filter.sort ?? "updated"];
+    const direction = (filter.order ?? (filter.sort === "title" ? "asc" : "desc")) === "asc" ? 1 : -1;
+    const documents = (await this.pageViews(prefix, keys, viewerId))
+      .filter((document) => matchesFilter(document, filter))
+      .sort((a, b) => {
+        const x = sortKey(a);
+        const y = sortKey(b);
+        return (x < y ? -1 : x > y ? 1 : 0) * direction;
+      });
+    const offset = cursor.offset ?? 0;
+    return {
+      documents: documents.slice(offset, offset + limit),
+      cursor: offset + limit < documents.length ? encodeListCursor({ offset: offset + limit }) : undefined,
+      truncated: index ? true : undefined,
+    };
+  }
+
+  private async pageViews(
+    prefix: string,
+    keys: string[],
+    viewerId: string | undefined
+  ): Promise<DocumentView[]> {
+    const records = (
+      await Promise.all(keys.map((key) => this.getRecord(key.slice(key.lastIndexOf(":") + 1))))
+    ).filter((record, i): record is DocumentRecord =>
+      Boolean(record && indexEntryKey(prefix, record.metadata) === keys[i])
+    );
+    return this.visibleViews(records, viewerId);
+  }
+
+  /** Views of the records the viewer may see, resolving each workspace role once. */
+  private async visibleViews(
+    records: DocumentRecord[],
+    viewerId: string | undefined
+  ): Promise<DocumentView[]> {
+    const workspaceIds = [
+      ...new Set(records.map((record) => record.metadata.workspaceId).filter(Boolean)),
+    ] as string[];
+    const roles = new Map(
+      await Promise.all(
+        workspaceIds.map(
+          async (workspaceId) =>
+            [workspaceId, viewerId ? await this.workspaces.roleOf(workspaceId, viewerId) : null] as const
+        )
+      )
+    );
+    return records
+      .map((record) => {
+        const role = record.metadata.workspaceId ? roles.get(record.metadata.workspaceId) : null;
+        return this.toView(record.metadata, viewerId, role ?? undefined);
+      })
+      .filter((view) => view.visibility === "public" || view.isOwner || view.role);
+  }
+
+  /** Text of the head version's text files, as search indexes and snippets see it. */
+  private async latestText(metadata: StoredDocumentMetadata): Promise<string> {
+    const head = metadata.versions[0];
+    if (!head || metadata.encrypted) return "";
+    if (!head.files && isBinaryVersion(head)) return "";
+    const version = await this.getVersion(metadata.id, head.versionId);
+    if (!version) return "";
+    return (version.files ?? [version])
+      .filter((file) => !file.encoding)
+      .map((file) => file.content)
+      .join("\n");
+  }
+
+  private async assignOwner(id: string, ownerToken: string, ownerId: string): Promise<boolean> {
+    return this.backend.withDocumentLock(id, async () => {
+      const record = await this.getRecord(id);
+      if (!record || record.metadata.ownerToken?.trim() !== ownerToken) return false;
+      await this.unindex(record.metadata);
+      record.metadata.ownerId = ownerId;
+      delete record.metadata.ownerToken;
+      await Promise.all([
+        this.putRecord(id, record.metadata),
+        this.reindex(record.metadata),
+        this.searchIndex.rescopeDocument(id, searchScopes(record.metadata), documentExpiration(record.metadata)),
+      ]);
+      return true;
+    });
+  }
+
+  /**
+   * Workspace documents are authorized by the caller's role; everything else by
+   * comparing owners. `required` is the role needed for the operation.
+   */
+  private async authorize(
+    metadata: StoredDocumentMetadata,
+    userId: string | undefined,
+    required: WorkspaceRole
+  ) {
+    const existingOwner = metadata.ownerId;
+    const ownerId = userId || undefined;
+
+    if (metadata.workspaceId) {
+      const role = await this.requireRole(metadata.workspaceId, ownerId, required);
+      return { existingOwner, ownerId, role };
+    }
+
+    if (existingOwner) {
+      if (existingOwner !== ownerId) throw new Error("FORBIDDEN");
+    } else if (metadata.ownerToken || ownerId) {
+      throw new Error("FORBIDDEN");
+    }
+
+    return { existingOwner, ownerId, role: undefined };
+  }
+
+  private async requireRole(
+    workspaceId: string,
+    userId: string | undefined,
+    required: WorkspaceRole
+  ): Promise<WorkspaceRole> {
+    const role = userId ? await this.workspaces.roleOf(workspaceId, userId) : null;
+    if (!role || !hasRole(role, required)) throw new Error("FORBIDDEN");
+    return role;
   }
 
-  private toView(metadata: StoredDocumentMetadata, viewerToken?: string): DocumentView {
-    const { ownerToken, rawAccessKey, ...rest } = metadata;
-    const hasOwner = Boolean(ownerToken);
-    const isOwner = hasOwner ? viewerToken === ownerToken : false;
+  private toView(
+    metadata: StoredDocumentMetadata,
+    viewerId?: string,
+    role?: WorkspaceRole
+  ): DocumentView {
+    const { ownerToken, ownerId, rawAccessKey, passwordHash, passwordSalt, versions, ...rest } = metadata;
+    const visibility = visibilityOf(metadata);
+    const isPrivate = visibility === "private" || visibility === "password";
+    const history = { versions: versions.slice(0, EMBEDDED_VERSION_COUNT), versionCount: versions.length };
+    if (metadata.workspaceId) {
+      return {
+        ...rest,
+        ...history,
+        visibility,
+        isOwner: role === "admin",
+        isPrivate,
+        role,
+        rawAccessKey: role ? rawAccessKey : undefined,
+      };
+    }
+    const isOwner = Boolean(ownerId) && viewerId === ownerId;
     return {
       ...rest,
+      ...history,
+      visibility,
       isOwner,
-      isPrivate: hasOwner,
-      rawAccessKey: hasOwner ? rawAccessKey : undefined,
+      isPrivate,
+      rawAccessKey: isOwner ? rawAccessKey : undefined,
     };
   }
 
+  private async setPassword(metadata: StoredDocumentMetadata, password?: string) {
+    if (password === undefined) {
+      delete metadata.passwordHash;
+      delete metadata.passwordSalt;
+      return;
+    }
+    metadata.passwordSalt = createPasswordSalt();
+    metadata.passwordHash = await hashPassword(password, metadata.passwordSalt);
+  }
+
   private async putRecord(id: string, metadata: StoredDocumentMetadata) {
     const record: DocumentRecord = { metadata };
-    await this.kv.put(`${DOCUMENT_KEY_PREFIX}${id}`, JSON.stringify(record));
+    await this.backend.put(`${DOCUMENT_KEY_PREFIX}${id}`, JSON.stringify(record), {
+      expiration: documentExpiration(metadata),
+    });
   }
 
-  private async putVersion(id: string, versionId: string, content: string) {
-    await this.kv.put(`${VERSION_KEY_PREFIX}${id}:${versionId}`, content);
+  private async removeDocument(metadata: StoredDocumentMetadata) {
+    const tasks: Promise<unknown>[] = [
+      this.deleteRecord(metadata.id),
+      this.unindex(metadata),
+      this.searchIndex.removeDocument(metadata.id),
+    ];
+
+    for (const version of metadata.versions) {
+      tasks.push(this.deleteVersion(metadata.id, version));
+    }
+
+    for (const key of await this.listKeys(sharePrefix(metadata.id))) {
+      tasks.push(this.backend.delete(key));
+    }
+
+    if (metadata.expiresAt) {
+      tasks.push(this.backend.delete(expiryKey(metadata)));
+    }
+
+    await Promise.all(tasks);
   }
 
-  private async deleteRecord(id: string) {
-    await this.kv.delete(`${DOCUMENT_KEY_PREFIX}${id}`);
+  private async describeVersion(
+    input: VersionContent,
+    createdAt: string,
+    title: string
+  ): Promise<VersionMetadata> {
+    const versionId = nanoid(10);
+    if (input.files) {
+      const files = await Promise.all(input.files.map((file) => this.describeFile(file)));
+      const size = files.reduce((total, file) => total + file.size, 0);
+      const manifest = JSON.stringify(files.map((file) => [file.name, file.hash]));
+      return {
+        versionId,
+        createdAt,
+        size,
+        hash: await this.hashContent(manifest),
+        title,
+        storage: "full",
+        storedSize: size,
+        files,
+      };
+    }
+
+    const content = input.content ?? "";
+    const size = contentBytes(content).byteLength;
+    return {
+      versionId,
+      createdAt,
+      size,
+      hash: await this.hashContent(content),
+      title,
+      storage: this.storageFor(size),
+      storedSize: size,
+      contentType: this.contentTypeFor(content, input.contentType),
+    };
+  }
+
+  private async describeFile(file: FileContent): Promise<VersionFile> {
+    const size = contentBytes(file.content).byteLength;
+    return {
+      name: file.name,
+      size,
+      hash: await this.hashContent(file.content),
+      contentType: this.contentTypeFor(file.content, file.contentType),
+      storage: this.storageFor(size),
+    };
   }
 
-  private async deleteVersion(id: string, versionId: string) {
-    await this.kv.delete(`${VERSION_KEY_PREFIX}${id}:${versionId}`);
+  private contentTypeFor(content: StoredContent, contentType?: string): string {
+    if (contentType) return contentType;
+    return typeof content === "string" ? TEXT_CONTENT_TYPE : BINARY_CONTENT_TYPE;
   }
 
-  private assertSize(content: string) {
-    const size = new TextEncoder().encode(content).byteLength;
-    if (size > this.maxSize) throw new Error("FILE_TOO_LARGE");
+  private storageFor(size: number): VersionMetadata["storage"] {
+    return this.bucket && size > this.bucketThreshold ? "bucket" : "full";
   }
 
-  private async hashContent(content: string): Promise<string> {
-    const hashBuffer = await crypto.subtle.digest(
-      "SHA-256",
-      new TextEncoder().encode(content)
+  /**
+   * Blob references hold their KV expiration, or "1" when the referencing
+   * document never expires, so a shared blob can live as long as its
+   * longest-lived reference.
+   */
+  private async putVersion(
+    id: string,
+    version: VersionMetadata,
+    input: VersionContent,
+    expiration?: number
+  ) {
+    const blobs: Array<{ entry: BlobEntry; content: StoredContent }> = version.files
+      ? version.files.map((file, i) => ({ entry: file, content: input.files![i].content }))
+      : [{ entry: version, content: input.content ?? "" }];
+    await Promise.all(blobs.map(({ entry, content }) => this.putBlob(entry, content, expiration)));
+    const hashes = new Set(blobs.map(({ entry }) => entry.hash));
+    await Promise.all(
+      [...hashes].map((hash) =>
+        this.backend.put(blobRefKey(hash, id, version.versionId), expiration ? String(expiration) : "1", {
+          expiration,
+        })
+      )
     );
+  }
+
+  private async putBlob(entry: BlobEntry, content: StoredContent, expiration?: number) {
+    // A released blob may be swept at any moment, so reusing one writes it again.
+    const released = await this.backend.has(blobReleaseKey(entry.hash));
+    if (released) await this.backend.delete(blobReleaseKey(entry.hash));
+    if (entry.storage === "bucket" && this.bucket) {
+      // Bucket objects cannot expire on their own; the expiry sweep releases them.
+      if (released || !(await this.bucket.head(bucketBlobKey(entry.hash)))) {
+        await this.bucket.put(bucketBlobKey(entry.hash), content);
+      }
+      return;
+    }
+    if (!released && (await this.backend.has(blobKey(entry.hash)))) {
+      const current = await this.blobExpiration(entry.hash);
+      if (current === undefined || (expiration !== undefined && expiration <= current)) return;
+    }
+    await this.backend.put(blobKey(entry.hash), content, { expiration });
+  }
+
+  /** The latest expiration among a blob's references; undefined if one never expires. */
+  private async blobExpiration(hash: string): Promise<number | undefined> {
+    let latest = 0;
+    for (const key of await this.listKeys(blobRefPrefix(hash))) {
+      const expiration = Number(await this.backend.get(key));
+      if (!(expiration > 1)) return undefined;
+      latest = Math.max(latest, expiration);
+    }
+    return latest || undefined;
+  }
+
+  private async readVersionInput(
+    id: string,
+    versions: VersionMetadata[],
+    index: number
+  ): Promise<VersionContent | null> {
+    const metadata = versions[index];
+    if (metadata.files) {
+      const contents = await Promise.all(
+        metadata.files.map((file) => this.readBlob(file, !isTextContentType(file.contentType)))
+      );
+      if (contents.some((content) => content === null)) return null;
+      return {
+        files: metadata.files.map((file, i) => ({
+          name: file.name,
+          content: contents[i]!,
+          contentType: file.contentType,
+        })),
+      };
+    }
+
+    const content = isBinaryVersion(metadata)
+      ? await this.readBlob(metadata, true)
+      : await this.readVersionContent(id, versions, index);
+    if (content === null) return null;
+    return { content, contentType: metadata.contentType };
+  }
+
+  private async readVersionContent(
+    id: string,
+    versions: VersionMetadata[],
+    index: number
+  ): Promise<string | null> {
+    let base = index;
+    while (base >= 0 && versions[base].storage === "delta") {
+      base -= 1;
+    }
+    if (base < 0) return null;
+
+    let content = await this.readFullContent(id, versions[base]);
+    for (let i = base + 1; i <= index && content !== null; i += 1) {
+      const patch = await this.backend.get(deltaKey(id, versions[i].versionId));
+      if (patch === null) return null;
+      const patched = applyPatch(content, patch);
+      content = patched === false ? null : patched;
+    }
+    return content;
+  }
+
+  private async readFullContent(id: string, version: VersionMetadata): Promise<string | null> {
+    if (version.storage === "bucket") {
+      const object = await this.bucket?.get(bucketBlobKey(version.hash));
+      return object ? object.text() : null;
+    }
+
+    const content = await this.backend.get(blobKey(version.hash));
+    if (content !== null) return content;
+
+    const legacyContent = await this.backend.get(legacyVersionKey(id, version.versionId));
+    if (legacyContent === null) return null;
+    await this.migrateVersion(id, version, legacyContent);
+    return legacyContent;
+  }
+
+  private async readBlob(entry: BlobEntry, binary: boolean): Promise<StoredContent | null> {
+    if (entry.storage === "bucket") {
+      const object = await this.bucket?.get(bucketBlobKey(entry.hash));
+      if (!object) return null;
+      return binary ? object.arrayBuffer() : object.text();
+    }
+    return binary ? this.backend.getBytes(blobKey(entry.hash)) : this.backend.get(blobKey(entry.hash));
+  }
+
+  /**
+   * Drops the versions the retention policy no longer keeps. A delta patches
+   * its newer neighbour, so a kept delta whose neighbour goes is re-encoded
+   * against the next kept version, or stored whole, before anything is deleted.
+   * Runs under the document lock; `metadata` is trimmed and saved in place.
+   */
+  private async pruneVersions(metadata: StoredDocumentMetadata) {
+    const keep = retainedVersions(metadata, metadata.retention ?? this.retention);
+    if (keep.every(Boolean)) return;
+
+    const { id, versions } = metadata;
+    const expiration = documentExpiration(metadata);
+    const rewrites: Array<{ version: VersionMetadata; content: string; newer: string | null }> = [];
+    let newer = 0;
+    for (let i = 1; i < versions.length; i += 1) {
+      if (!keep[i]) continue;
+      if (versions[i].storage === "delta" && !keep[i - 1]) {
+        const content = await this.readVersionContent(id, versions, i);
+        // An unreadable delta stays as broken as it already was.
+        if (content !== null) {
+          const newerVersion = versions[newer];
+          const newerContent =
+            newerVersion.files || isBinaryVersion(newerVersion)
+              ? null
+              : await this.readVersionContent(id, versions, newer);
+          rewrites.push({ version: versions[i], content, newer: newerContent });
+        }
+      }
+      newer = i;
+    }
+
+    for (const { version, content, newer: newerContent } of rewrites) {
+      const patch =
+        newerContent === null
+          ? null
+          : createPatch(version.versionId, newerContent, content, undefined, undefined, { context: 0 });
+      if (patch !== null && patch.length < content.length && applyPatch(newerContent!, patch) === content) {
+        await this.backend.put(deltaKey(id, version.versionId), patch, { expiration });
+        version.storedSize = new TextEncoder().encode(patch).byteLength;
+        continue;
+      }
+      version.storage = this.storageFor(version.size);
+      version.storedSize = version.size;
+      await this.putVersion(id, version, { content }, expiration);
+      await this.backend.delete(deltaKey(id, version.versionId));
+    }
+
+    const pruned = versions.filter((_, index) => !keep[index]);
+    metadata.versions = versions.filter((_, index) => keep[index]);
+    await this.putRecord(id, metadata);
+    await Promise.all(pruned.map((version) => this.deleteVersion(id, version)));
+  }
+
+  private async createDeltaFor(
+    metadata: StoredDocumentMetadata,
+    nextContent: string,
+    nextHash: string
+  ): Promise<string | null> {
+    const previous = metadata.versions[0];
+    // Pruning holds the version count steady, so the chain behind the head decides when to snapshot.
+    const snapshot = metadata.versions.findIndex((version, index) => index > 0 && version.storage !== "delta");
+    const chain = (snapshot === -1 ? metadata.versions.length : snapshot) - 1;
+    if (previous.hash === nextHash || chain >= SNAPSHOT_INTERVAL - 1) return null;
+
+    const previousContent = await this.readVersionContent(metadata.id, metadata.versions, 0);
+    if (previousContent === null) return null;
+
+    const patch = createPatch(previous.versionId, nextContent, previousContent, undefined, undefined, {
+      context: 0,
+    });
+    if (patch.length >= previousContent.length) return null;
+    if (applyPatch(nextContent, patch) !== previousContent) return null;
+    return patch;
+  }
+
+  private async migrateVersion(id: string, version: VersionMetadata, content: string) {
+    await this.putVersion(id, version, { content });
+    await this.backend.delete(legacyVersionKey(id, version.versionId));
+  }
+
+  private async putShare(share: ShareRecord) {
+    await this.backend.put(shareKey(share.documentId, share.id), JSON.stringify(share), {
+      expiration: Math.ceil(share.expiresAt / 1000) + SHARE_RECORD_GRACE_SECONDS,
+    });
+  }
+
+  private async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.backend.list({ prefix, cursor });
+      keys.push(...page.keys);
+      cursor = page.cursor;
+    } while (cursor);
+    return keys;
+  }
+
+  private async deleteRecord(id: string) {
+    await this.backend.delete(`${DOCUMENT_KEY_PREFIX}${id}`);
+  }
+
+  private async deleteVersion(id: string, version: VersionMetadata) {
+    if (version.storage === "delta") {
+      await this.backend.delete(deltaKey(id, version.versionId));
+      return;
+    }
+    await this.releaseBlob(id, version);
+  }
+
+  private async releaseBlob(id: string, version: VersionMetadata) {
+    const hashes = new Set(version.files ? version.files.map((file) => file.hash) : [version.hash]);
+    await Promise.all([
+      this.backend.delete(legacyVersionKey(id, version.versionId)),
+      ...[...hashes].map((hash) => this.releaseHash(id, version.versionId, hash)),
+    ]);
+  }
+
+  /**
+   * Drops one reference and leaves the blob for `sweepReleasedBlobs`. Listings
+   * lag, so a reference another document just wrote may not show up yet.
+   */
+  private async releaseHash(id: string, versionId: string, hash: string) {
+    await this.backend.delete(blobRefKey(hash, id, versionId));
+    await this.backend.put(blobReleaseKey(hash), String(Math.floor(Date.now() / 1000)));
+  }
+
+  private assertSize(input: VersionContent) {
+    if (inputSize(input) > this.maxSize) throw new Error("FILE_TOO_LARGE");
+  }
+
+  private async hashContent(content: StoredContent): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest("SHA-256", contentBytes(content));
     return Array.from(new Uint8Array(hashBuffer))
       .map((b) => b.toString(16).padStart(2, "0"))
       .join("");
   }
 
-  private async touchOwnerIndex(ownerToken: string | undefined, documentId: string) {
-    if (!ownerToken) return;
-    await this.pushToIndex(ownerIndexKey(ownerToken), documentId);
-  }
-
-  private async updatePublicIndex(documentId: string, isPublic: boolean) {
-    if (isPublic) {
-      await this.pushToIndex(PUBLIC_INDEX_KEY, documentId);
-    } else {
-      await this.removeFromIndex(PUBLIC_INDEX_KEY, documentId);
+  private indexPrefixes(metadata: StoredDocumentMetadata): string[] {
+    const prefixes = visibilityOf(metadata) === "public" ? [PUBLIC_INDEX_PREFIX] : [];
+    const ownerToken = metadata.ownerToken?.trim();
+    if (metadata.workspaceId) {
+      prefixes.push(workspaceIndexPrefix(metadata.workspaceId));
+    } else if (metadata.ownerId) {
+      prefixes.push(userIndexPrefix(metadata.ownerId));
+    } else if (ownerToken) {
+      prefixes.push(legacyOwnerIndexPrefix(ownerToken));
     }
+    return prefixes;
   }
 
-  private async pushToIndex(key: string, id: string) {
-    const index = await this.getIndex(key);
-    const filtered = index.filter((existing) => existing !== id);
-    filtered.unshift(id);
-    await this.kv.put(key, JSON.stringify(filtered));
+  private async reindex(metadata: StoredDocumentMetadata, previousUpdatedAt?: string) {
+    const prefixes = this.indexPrefixes(metadata);
+    // Index entries expire with the document itself so listings drop it on time.
+    const expiresAt = expiresAtSeconds(metadata);
+    const expiration =
+      expiresAt === undefined
+        ? undefined
+        : Math.max(expiresAt, Math.ceil(Date.now() / 1000) + MIN_KV_EXPIRATION_SECONDS);
+    const tasks = prefixes.map((prefix) =>
+      this.backend.put(indexEntryKey(prefix, metadata), "", { expiration })
+    );
+    if (previousUpdatedAt && previousUpdatedAt !== metadata.updatedAt) {
+      const previous = { id: metadata.id, updatedAt: previousUpdatedAt };
+      tasks.push(...prefixes.map((prefix) => this.backend.delete(indexEntryKey(prefix, previous))));
+    }
+    await Promise.all(tasks);
   }
 
-  private async removeFromIndex(key: string, id: string) {
-    const index = await this.getIndex(key);
-    const filtered = index.filter((existing) => existing !== id);
-    await this.kv.put(key, JSON.stringify(filtered));
+  private async unindex(metadata: StoredDocumentMetadata) {
+    await Promise.all(
+      this.indexPrefixes(metadata).map((prefix) => this.backend.delete(indexEntryKey(prefix, metadata)))
+    );
   }
 
-  private async getIndex(key: string): Promise<string[]> {
-    const value = await this.kv.get(key);
-    if (!value) return [];
+  private async migrateLegacyIndex(key: string) {
+    const value = await this.backend.get(key);
+    if (value === null) return;
+    let ids: unknown = [];
     try {
-      const parsed = JSON.parse(value);
-      return Array.isArray(parsed) ? parsed : [];
+      ids = JSON.parse(value);
     } catch (error) {
-      return [];
+      ids = [];
     }
-  }
-
-  private sliceIndex(index: string[], limit: number, cursor?: string) {
-    const start = cursor ? Math.max(index.indexOf(cursor) + 1, 0) : 0;
-    const slice = index.slice(start, start + limit);
-    const nextCursor = start + limit < index.length ? index[start + limit - 1] : undefined;
-    return { slice, nextCursor };
+    if (Array.isArray(ids)) {
+      const records = await Promise.all(
+        ids.filter((id): id is string => typeof id === "string").map((id) => this.getRecord(id))
+      );
+      await Promise.all(
+        records.map((record) => (record ? this.reindex(record.metadata) : undefined))
+      );
+    }
+    await this.backend.delete(key);
   }
 }
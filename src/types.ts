@@ -1,8 +1,29 @@
+export type VersionStorage = "full" | "delta" | "bucket";
+
+export interface VersionFile {
+  name: string;
+  size: number;
+  hash: string;
+  contentType?: string;
+  storage?: VersionStorage;
+}
+
 export interface VersionMetadata {
   versionId: string;
   createdAt: string;
   size: number;
   hash: string;
+  title?: string;
+  storage?: VersionStorage;
+  storedSize?: number;
+  contentType?: string;
+  files?: VersionFile[];
+  /** The earlier version whose content this one brought back. */
+  restoredFrom?: string;
+  /** Free-text note saved with the version, like a commit message. */
+  message?: string;
+  /** Who saved the version, as they chose to sign it. */
+  author?: string;
 }
 
 export interface ShareTokenView {
@@ -10,6 +31,8 @@ export interface ShareTokenView {
   expiresAt: number;
 }
 
+export type Visibility = "public" | "unlisted" | "private" | "password";
+
 export interface StoredDocumentMetadata {
   id: string;
   title: string;
@@ -17,39 +40,378 @@ export interface StoredDocumentMetadata {
   updatedAt: string;
   size: number;
   versions: VersionMetadata[];
+  ownerId?: string;
+  /** Raw owner token from before accounts existed; replaced by `ownerId` on migration. */
   ownerToken?: string;
   rawAccessKey?: string;
+  workspaceId?: string;
+  /** Missing on older documents: owned ones are private, anonymous ones public. */
+  visibility?: Visibility;
+  passwordHash?: string;
+  passwordSalt?: string;
+  /** ISO timestamp after which the document and everything it stored is deleted. */
+  expiresAt?: string;
+  /** Burn-after-read budget: the document is deleted once `reads` reaches it. */
+  maxReads?: number;
+  reads?: number;
+  /**
+   * Content is `<iv>.<ciphertext>` sealed in the browser with AES-GCM. The key
+   * stays in the link's fragment, so titles and file names are the only plaintext.
+   */
+  encrypted?: boolean;
+  /** Lowercase labels used to filter listings. */
+  tags?: string[];
+  /** Slash-separated path such as `projects/infra`, without leading or trailing slashes. */
+  folder?: string;
+  /** Named pointers such as `prod` or `v1.2`, each to one version id. */
+  labels?: Record<string, string>;
+  /** Overrides the server's `VERSION_RETENTION` default for this document. */
+  retention?: RetentionPolicy;
+  /** The document and version this one was copied from. */
+  forkedFrom?: ForkSource;
+  /** How many forks have been made of this document. */
+  forkCount?: number;
 }
 
-export interface DocumentView extends Omit<StoredDocumentMetadata, "ownerToken"> {
+export interface ForkSource {
+  documentId: string;
+  versionId: string;
+}
+
+/**
+ * Which versions survive pruning. A version is kept if any rule keeps it;
+ * the head and labeled versions are always kept, and a policy with neither
+ * rule keeps everything.
+ */
+export interface RetentionPolicy {
+  /** Keep the newest N versions. */
+  keepLast?: number;
+  /** Keep versions saved within the last N days. */
+  keepDays?: number;
+}
+
+export interface DocumentView
+  extends Omit<StoredDocumentMetadata, "ownerToken" | "ownerId" | "passwordHash" | "passwordSalt"> {
+  visibility: Visibility;
   isOwner: boolean;
+  /** Whether reading needs more than the link: owner, workspace role, share link or password. */
   isPrivate: boolean;
+  /** The viewer's role when the document belongs to one of their workspaces. */
+  role?: WorkspaceRole;
+  /** `versions` holds only the newest entries; older ones come from `GET /api/documents/:id/versions`. */
+  versionCount: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  /** `[start, end)` offsets into `text` of each matched term. */
+  highlights: Array<[number, number]>;
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+export interface SearchResult {
+  document: DocumentView;
+  /** Missing when only the title matched. */
+  snippet?: SearchSnippet;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+}
+
+export interface DocumentFile {
+  name: string;
+  content: string;
+  encoding?: "base64";
+  contentType?: string;
 }
 
 export interface DocumentVersion {
   metadata: VersionMetadata;
   content: string;
+  encoding?: "base64";
+  files?: DocumentFile[];
+}
+
+export interface VersionRef {
+  documentId: string;
+  versionId: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Lines prefixed with " ", "+" or "-", as in a unified patch. */
+  lines: string[];
+}
+
+export interface FileDiff {
+  name: string;
+  /** The file's name on the `from` side when it differs. */
+  previousName?: string;
+  status: "added" | "removed" | "modified" | "unchanged";
+  /** Binary files are compared as a whole and have no hunks. */
+  binary?: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+  filesChanged: number;
+}
+
+export interface DocumentDiffResponse {
+  from: VersionRef;
+  to: VersionRef;
+  files: FileDiff[];
+  stats: DiffStats;
+}
+
+export interface DocumentFileInput {
+  name: string;
+  content: string;
 }
 
 export interface CreateDocumentRequest {
   title: string;
-  content: string;
+  content?: string;
+  files?: DocumentFileInput[];
+  workspaceId?: string;
+  visibility?: Visibility;
+  password?: string;
+  /** Absolute expiry; use either this or `expiresInSeconds`. */
+  expiresAt?: string;
+  expiresInSeconds?: number;
+  /** Deletes the document after this many content reads by anyone but its owner. */
+  burnAfterReads?: number;
+  /** Content and file contents are already encrypted client-side. */
+  encrypted?: boolean;
+  tags?: string[];
+  folder?: string;
+  message?: string;
+  author?: string;
 }
 
 export interface UpdateDocumentRequest {
-  content: string;
+  content?: string;
+  files?: DocumentFileInput[];
+  title?: string;
+  baseVersionId?: string;
+  message?: string;
+  author?: string;
+}
+
+export interface ForkDocumentRequest {
+  /** Defaults to the latest version. */
+  versionId?: string;
+  /** Defaults to the forked version's title. */
+  title?: string;
 }
 
+export interface SetLabelRequest {
+  versionId: string;
+}
+
+export interface UpdateConflictResponse {
+  error: string;
+  current: DocumentView;
+  currentVersion: DocumentVersion;
+}
+
+export interface PatchDocumentRequest {
+  title?: string;
+  /** Moves the document into a workspace, or back to the caller's own documents with `null`. */
+  workspaceId?: string | null;
+  visibility?: Visibility;
+  /** Required when switching to `password` visibility; replaces the current password otherwise. */
+  password?: string;
+  /** Replaces every tag; an empty list removes them. */
+  tags?: string[];
+  /** Moves the document into a folder, or back to the top level with `null`. */
+  folder?: string | null;
+  /** Sets this document's retention policy, or falls back to the server default with `null`. */
+  retention?: RetentionPolicy | null;
+}
+
+export interface UnlockDocumentRequest {
+  password: string;
+}
+
+export interface UnlockDocumentResponse {
+  token: string;
+  expiresAt: number;
+}
+
+export type ShareAccess = "metadata" | "raw";
+
 export interface ShareTokenPayload {
   documentId: string;
+  shareId: string;
+  expiresAt: number;
+  access: ShareAccess;
+  versionId?: string;
+}
+
+export interface ShareRecord {
+  id: string;
+  documentId: string;
+  createdAt: string;
+  expiresAt: number;
+  label?: string;
+  access: ShareAccess;
+  versionId?: string;
+  maxViews?: number;
+  views: number;
+  revoked: boolean;
+}
+
+export interface CreateShareRequest {
+  expiresInMinutes?: number;
+  access?: ShareAccess;
+  versionId?: string;
+  label?: string;
+  maxViews?: number;
+}
+
+export interface CreateShareResponse {
+  token: string;
+  shareUrl: string;
+  viewUrl: string;
   expiresAt: number;
+  share: ShareRecord;
+}
+
+export interface ShareListResponse {
+  shares: ShareRecord[];
+}
+
+export interface SharedDocumentResponse {
+  document: DocumentView;
+  access: ShareAccess;
+  versionId?: string;
+  expiresAt: number;
+  content?: string;
+  files?: DocumentFile[];
+}
+
+export interface VersionListResponse {
+  /** Newest first. */
+  versions: VersionMetadata[];
+  cursor?: string;
 }
 
 export interface DocumentListResponse {
   documents: DocumentView[];
   cursor?: string;
+  /** Set when a non-default sort only covered the most recent documents. */
+  truncated?: boolean;
+}
+
+export type DocumentSort = "updated" | "created" | "title" | "size";
+
+export type SortOrder = "asc" | "desc";
+
+export interface DocumentListFilter {
+  tag?: string;
+  /** Matches the folder and everything below it. */
+  folder?: string;
+  sort?: DocumentSort;
+  order?: SortOrder;
+}
+
+export type TokenScope = "documents:read" | "documents:write" | "documents:delete";
+
+export interface ApiTokenRecord {
+  id: string;
+  name: string;
+  hash: string;
+  createdAt: string;
+  /** Omitted for unrestricted tokens, which can also manage the account. */
+  scopes?: TokenScope[];
+  /** Limits the token to a single document. */
+  documentId?: string;
+  expiresAt?: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  legacy?: boolean;
+}
+
+export type ApiTokenView = Omit<ApiTokenRecord, "hash">;
+
+export interface UserRecord {
+  id: string;
+  createdAt: string;
+  recoveryCodeHash?: string;
+  tokens: ApiTokenRecord[];
+}
+
+export interface AccountResponse {
+  id: string;
+  createdAt: string;
+  hasRecoveryCode: boolean;
+  /** Id of the token that made the request. */
+  currentTokenId: string;
+  tokens: ApiTokenView[];
+}
+
+export interface CreateApiTokenRequest {
+  name?: string;
+  scopes?: TokenScope[];
+  documentId?: string;
+  expiresInDays?: number;
+}
+
+export interface RecoverAccountRequest {
+  recoveryCode: string;
+  name?: string;
+}
+
+export interface RecoveryCodeResponse {
+  recoveryCode: string;
 }
 
 export interface UserTokenResponse {
   token: string;
+  userId: string;
+  tokenInfo: ApiTokenView;
+  recoveryCode?: string;
+}
+
+export type WorkspaceRole = "viewer" | "editor" | "admin";
+
+export interface WorkspaceMember {
+  userId: string;
+  role: WorkspaceRole;
+  addedAt: string;
+}
+
+export interface WorkspaceRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: WorkspaceMember[];
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceListResponse {
+  workspaces: WorkspaceSummary[];
+}
+
+export interface CreateWorkspaceRequest {
+  name: string;
+}
+
+export interface UpdateWorkspaceMemberRequest {
+  role: WorkspaceRole;
 }
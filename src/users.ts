@@ -0,0 +1,260 @@
+import { customAlphabet, nanoid } from "nanoid";
+import { createStorageBackend } from "./backend";
+import type { StorageBackend } from "./backend";
+import { hashSecret } from "./auth";
+import type { Env } from "./router";
+import type { AccountResponse, ApiTokenRecord, ApiTokenView, TokenScope, UserRecord } from "./types";
+
+const USER_KEY_PREFIX = "user:";
+const TOKEN_KEY_PREFIX = "apitoken:";
+const RECOVERY_KEY_PREFIX = "recovery:";
+const TOKEN_PREFIX = "th_";
+const MAX_ACTIVE_TOKENS = 20;
+const RECOVERY_GROUPS = 4;
+
+export const TOKEN_SCOPES: TokenScope[] = ["documents:read", "documents:write", "documents:delete"];
+
+const recoveryAlphabet = customAlphabet("ABCDEFGHJKLMNPQRSTUVWXYZ23456789", 5);
+
+interface TokenLookup extends Principal {
+  expiresAt?: string;
+}
+
+export interface Principal {
+  userId: string;
+  tokenId: string;
+  /** Undefined for unrestricted tokens. */
+  scopes?: TokenScope[];
+  documentId?: string;
+}
+
+export interface TokenRestrictions {
+  scopes?: TokenScope[];
+  documentId?: string;
+  expiresAt?: string;
+}
+
+export interface IssuedToken {
+  token: string;
+  info: ApiTokenView;
+}
+
+function userKey(userId: string): string {
+  return `${USER_KEY_PREFIX}${userId}`;
+}
+
+function tokenKey(hash: string): string {
+  return `${TOKEN_KEY_PREFIX}${hash}`;
+}
+
+function recoveryKey(hash: string): string {
+  return `${RECOVERY_KEY_PREFIX}${hash}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function toTokenView({ hash, ...view }: ApiTokenRecord): ApiTokenView {
+  return view;
+}
+
+function isTokenExpired(token: { expiresAt?: string }): boolean {
+  return Boolean(token.expiresAt && Date.parse(token.expiresAt) <= Date.now());
+}
+
+/** Tokens issued by the account system; anything else may be a pre-account owner token. */
+export function isIssuedToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+export function createUserStore(env: Env): UserStore {
+  return new UserStore(createStorageBackend(env));
+}
+
+export class UserStore {
+  constructor(private backend: StorageBackend) {}
+
+  async createUser(
+    tokenName = "default"
+  ): Promise<{ userId: string; token: IssuedToken; recoveryCode: string }> {
+    const user: UserRecord = { id: nanoid(16), createdAt: new Date().toISOString(), tokens: [] };
+    const token = await this.addToken(user, tokenName);
+    const recoveryCode = await this.setRecoveryCode(user);
+    await this.putUser(user);
+    return { userId: user.id, token, recoveryCode };
+  }
+
+  async authenticate(token: string): Promise<Principal | null> {
+    const lookup = await this.backend.getJson<TokenLookup>(tokenKey(await hashSecret(token)));
+    if (!lookup || isTokenExpired(lookup)) return null;
+    const { expiresAt, ...principal } = lookup;
+    return principal;
+  }
+
+  async hasUser(userId: string): Promise<boolean> {
+    return this.backend.has(userKey(userId));
+  }
+
+  async getAccount(principal: Principal): Promise<AccountResponse | null> {
+    const user = await this.getUser(principal.userId);
+    if (!user) return null;
+    return {
+      id: user.id,
+      createdAt: user.createdAt,
+      hasRecoveryCode: Boolean(user.recoveryCodeHash),
+      currentTokenId: principal.tokenId,
+      tokens: user.tokens.map(toTokenView),
+    };
+  }
+
+  async createToken(
+    userId: string,
+    name: string,
+    restrictions: TokenRestrictions = {}
+  ): Promise<IssuedToken> {
+    return this.withUser(userId, async (user) => {
+      const active = user.tokens.filter((token) => !token.revokedAt && !isTokenExpired(token));
+      if (active.length >= MAX_ACTIVE_TOKENS) throw new Error("TOO_MANY_TOKENS");
+      const issued = await this.addToken(user, name, restrictions);
+      await this.putUser(user);
+      return issued;
+    });
+  }
+
+  async rotateToken(userId: string, tokenId: string): Promise<IssuedToken> {
+    return this.withUser(userId, async (user) => {
+      const record = user.tokens.find((token) => token.id === tokenId && !token.revokedAt);
+      if (!record) throw new Error("NOT_FOUND");
+      if (isTokenExpired(record)) throw new Error("TOKEN_EXPIRED");
+      await this.backend.delete(tokenKey(record.hash));
+      const token = `${TOKEN_PREFIX}${nanoid(32)}`;
+      record.hash = await hashSecret(token);
+      record.rotatedAt = new Date().toISOString();
+      delete record.legacy;
+      await Promise.all([this.putLookup(user.id, record), this.putUser(user)]);
+      return { token, info: toTokenView(record) };
+    });
+  }
+
+  async revokeToken(userId: string, tokenId: string): Promise<ApiTokenView> {
+    return this.withUser(userId, async (user) => {
+      const record = user.tokens.find((token) => token.id === tokenId);
+      if (!record) throw new Error("NOT_FOUND");
+      if (!record.revokedAt) {
+        record.revokedAt = new Date().toISOString();
+        await Promise.all([this.backend.delete(tokenKey(record.hash)), this.putUser(user)]);
+      }
+      return toTokenView(record);
+    });
+  }
+
+  async regenerateRecoveryCode(userId: string): Promise<string> {
+    return this.withUser(userId, async (user) => {
+      const recoveryCode = await this.setRecoveryCode(user);
+      await this.putUser(user);
+      return recoveryCode;
+    });
+  }
+
+  /**
+   * Exchanges a recovery code for a fresh token. The code is single use: a new
+   * one is issued alongside the token.
+   */
+  async recover(
+    recoveryCode: string,
+    tokenName = "recovered"
+  ): Promise<{ userId: string; token: IssuedToken; recoveryCode: string }> {
+    const hash = await hashSecret(normalizeRecoveryCode(recoveryCode));
+    const userId = await this.backend.get(recoveryKey(hash));
+    if (!userId) throw new Error("INVALID_RECOVERY_CODE");
+    return this.withUser(userId, async (user) => {
+      if (user.recoveryCodeHash !== hash) throw new Error("INVALID_RECOVERY_CODE");
+      const token = await this.addToken(user, tokenName);
+      const nextCode = await this.setRecoveryCode(user);
+      await this.putUser(user);
+      return { userId: user.id, token, recoveryCode: nextCode };
+    });
+  }
+
+  /**
+   * Registers a pre-account owner token as the first token of a new user so
+   * its documents can be moved to that user. Safe to call repeatedly.
+   */
+  async claimLegacyToken(token: string): Promise<Principal> {
+    const hash = await hashSecret(token);
+    return this.backend.withDocumentLock(tokenKey(hash), async () => {
+      const existing = await this.authenticate(token);
+      if (existing) return existing;
+      const user: UserRecord = { id: nanoid(16), createdAt: new Date().toISOString(), tokens: [] };
+      const record: ApiTokenRecord = {
+        id: nanoid(10),
+        name: "legacy token",
+        hash,
+        createdAt: user.createdAt,
+        legacy: true,
+      };
+      user.tokens.push(record);
+      await this.putUser(user);
+      await this.putLookup(user.id, record);
+      return { userId: user.id, tokenId: record.id };
+    });
+  }
+
+  private async addToken(
+    user: UserRecord,
+    name: string,
+    restrictions: TokenRestrictions = {}
+  ): Promise<IssuedToken> {
+    const token = `${TOKEN_PREFIX}${nanoid(32)}`;
+    const record: ApiTokenRecord = {
+      id: nanoid(10),
+      name: name.trim() || "token",
+      hash: await hashSecret(token),
+      createdAt: new Date().toISOString(),
+      ...restrictions,
+    };
+    user.tokens.push(record);
+    await this.putLookup(user.id, record);
+    return { token, info: toTokenView(record) };
+  }
+
+  private async setRecoveryCode(user: UserRecord): Promise<string> {
+    const groups = Array.from({ length: RECOVERY_GROUPS }, () => recoveryAlphabet());
+    const hash = await hashSecret(groups.join(""));
+    if (user.recoveryCodeHash) {
+      await this.backend.delete(recoveryKey(user.recoveryCodeHash));
+    }
+    user.recoveryCodeHash = hash;
+    await this.backend.put(recoveryKey(hash), user.id);
+    return groups.join("-");
+  }
+
+  private async withUser<T>(userId: string, fn: (user: UserRecord) => Promise<T>): Promise<T> {
+    return this.backend.withDocumentLock(userKey(userId), async () => {
+      const user = await this.getUser(userId);
+      if (!user) throw new Error("NOT_FOUND");
+      return fn(user);
+    });
+  }
+
+  private async getUser(userId: string): Promise<UserRecord | null> {
+    return this.backend.getJson<UserRecord>(userKey(userId));
+  }
+
+  private async putUser(user: UserRecord) {
+    await this.backend.put(userKey(user.id), JSON.stringify(user));
+  }
+
+  private async putLookup(userId: string, record: ApiTokenRecord) {
+    const lookup: TokenLookup = {
+      userId,
+      tokenId: record.id,
+      scopes: record.scopes,
+      documentId: record.documentId,
+      expiresAt: record.expiresAt,
+    };
+    const expiration = record.expiresAt ? Math.floor(Date.parse(record.expiresAt) / 1000) : undefined;
+    await this.backend.put(tokenKey(record.hash), JSON.stringify(lookup), { expiration });
+  }
+}
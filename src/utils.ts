@@ -1,4 +1,32 @@
 import { badRequest } from "./errors";
+import type { ByteRange } from "./backend";
+import type { Visibility } from "./types";
+import { BINARY_CONTENT_TYPE, decodeText, detectContentType, isTextContentType } from "./mime";
+
+export interface UploadedFile {
+  name: string;
+  content: string | ArrayBuffer;
+  contentType: string;
+}
+
+export interface UploadedContent {
+  filename?: string;
+  title?: string;
+  content: string | ArrayBuffer;
+  contentType: string;
+  files?: UploadedFile[];
+  baseVersionId?: string;
+  workspaceId?: string;
+  visibility?: Visibility;
+  password?: string;
+  expiresAt?: string;
+  expiresInSeconds?: number;
+  burnAfterReads?: number;
+  tags?: string[];
+  folder?: string;
+  message?: string;
+  author?: string;
+}
 
 export function jsonResponse<T>(data: T, init: ResponseInit = {}): Response {
   return new Response(JSON.stringify(data), {
@@ -23,6 +51,90 @@ export async function parseJsonRequest<T>(request: Request): Promise<T> {
   }
 }
 
+export function isJsonRequest(request: Request): boolean {
+  return Boolean(request.headers.get("content-type")?.includes("application/json"));
+}
+
+function formString(form: FormData, key: string): string | undefined {
+  const value = form.get(key);
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function optionalNumber(value: string | null | undefined): number | undefined {
+  return value?.trim() ? Number(value) : undefined;
+}
+
+function optionalList(value: string | null | undefined): string[] | undefined {
+  return value?.trim() ? value.split(",") : undefined;
+}
+
+function decodeUpload(bytes: Uint8Array, filename?: string, declaredType?: string) {
+  const contentType = detectContentType(bytes, filename, declaredType);
+  const text = isTextContentType(contentType) ? decodeText(bytes) : null;
+  return {
+    content: text ?? (bytes.buffer as ArrayBuffer),
+    contentType: text === null && isTextContentType(contentType) ? BINARY_CONTENT_TYPE : contentType,
+  };
+}
+
+export async function parseUploadRequest(request: Request): Promise<UploadedContent> {
+  const declaredType = request.headers.get("content-type") ?? undefined;
+
+  if (!declaredType?.includes("multipart/form-data")) {
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    const params = new URL(request.url).searchParams;
+    const filename = params.get("filename") ?? undefined;
+    return {
+      filename,
+      title: filename,
+      workspaceId: params.get("workspaceId") ?? undefined,
+      visibility: (params.get("visibility") as Visibility | null) ?? undefined,
+      expiresAt: params.get("expiresAt") ?? undefined,
+      expiresInSeconds: optionalNumber(params.get("expiresInSeconds")),
+      burnAfterReads: optionalNumber(params.get("burnAfterReads")),
+      tags: optionalList(params.get("tags")),
+      folder: params.get("folder") ?? undefined,
+      message: params.get("message") ?? undefined,
+      author: params.get("author") ?? undefined,
+      ...decodeUpload(bytes, filename, declaredType),
+    };
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch (error) {
+    throw badRequest("invalid multipart payload");
+  }
+  const parts = form.getAll("file").filter((part): part is File => typeof part !== "string");
+  if (!parts.length) throw badRequest("file field required");
+  const files = await Promise.all(
+    parts.map(async (part) => ({
+      name: part.name,
+      ...decodeUpload(new Uint8Array(await part.arrayBuffer()), part.name, part.type || undefined),
+    }))
+  );
+  const filename = files[0].name || undefined;
+  return {
+    filename,
+    title: formString(form, "title") ?? filename,
+    content: files[0].content,
+    contentType: files[0].contentType,
+    files: files.length > 1 ? files : undefined,
+    baseVersionId: formString(form, "baseVersionId"),
+    workspaceId: formString(form, "workspaceId"),
+    visibility: formString(form, "visibility") as Visibility | undefined,
+    password: formString(form, "password"),
+    expiresAt: formString(form, "expiresAt"),
+    expiresInSeconds: optionalNumber(formString(form, "expiresInSeconds")),
+    burnAfterReads: optionalNumber(formString(form, "burnAfterReads")),
+    tags: optionalList(formString(form, "tags")),
+    folder: formString(form, "folder"),
+    message: formString(form, "message"),
+    author: formString(form, "author"),
+  };
+}
+
 export function getQueryParam(url: URL, key: string): string | null {
   const value = url.searchParams.get(key);
   return value ?? null;
@@ -32,16 +144,51 @@ export function getHeaderToken(request: Request): string | undefined {
   return request.headers.get("x-user-token") ?? undefined;
 }
 
+export function getIfMatch(request: Request): string | undefined {
+  const value = request.headers.get("if-match")?.trim();
+  if (!value || value === "*") return undefined;
+  return value.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+}
+
 export function getRawUrl(
   baseUrl: URL,
   documentId: string,
-  versionId: string,
+  versionId?: string,
   token?: string
 ): string {
   const url = new URL(`/api/documents/${documentId}/raw`, baseUrl);
-  url.searchParams.set("versionId", versionId);
+  if (versionId) {
+    url.searchParams.set("versionId", versionId);
+  }
   if (token) {
     url.searchParams.set("token", token);
   }
   return url.toString();
 }
+
+export function getShareViewUrl(baseUrl: URL, token: string): string {
+  return new URL(`/s/${token}`, baseUrl).toString();
+}
+
+export function getContentDisposition(filename: string, disposition = "inline"): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number
+): ByteRange | "unsatisfiable" | undefined {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return "unsatisfiable";
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) return "unsatisfiable";
+  return { offset: start, length: end - start + 1 };
+}
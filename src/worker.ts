@@ -1,6 +1,8 @@
 import { Hono } from "hono";
 import { app as apiApp, Env as RouterEnv } from "./router";
 import { HttpError } from "./errors";
+import { createDocumentStore } from "./storage";
+import { createUserStore } from "./users";
 
 interface WorkerEnv extends RouterEnv {
   ASSETS: { fetch: typeof fetch };
@@ -27,9 +29,9 @@ workerApp.all("*", async (c) => {
 
 workerApp.onError((err, c) => {
   if (err instanceof HttpError) {
-    return new Response(JSON.stringify({ error: err.message }), {
+    return new Response(JSON.stringify({ ...err.details, error: err.message }), {
       status: err.status,
-      headers: { "content-type": "application/json" },
+      headers: { ...err.headers, "content-type": "application/json" },
     });
   }
   console.error(err);
@@ -39,4 +41,40 @@ workerApp.onError((err, c) => {
   });
 });
 
-export default workerApp;
+// Crons that run more often than hourly are limited to 30 seconds; leave room for the last batch.
+const SCHEDULED_BUDGET_MS = 20_000;
+
+/** Runs a batch job until it reports completion or the deadline passes. */
+async function drain(
+  batch: (cursor?: string) => Promise<{ complete: boolean; cursor?: string }>,
+  deadline: number
+) {
+  let cursor: string | undefined;
+  while (Date.now() < deadline) {
+    const result = await batch(cursor);
+    if (result.complete) return;
+    cursor = result.cursor;
+  }
+}
+
+async function scheduled(_event: ScheduledEvent, env: WorkerEnv, ctx: ExecutionContext) {
+  const store = createDocumentStore(env);
+  const users = createUserStore(env);
+  const deadline = Date.now() + SCHEDULED_BUDGET_MS;
+  ctx.waitUntil(drain(() => store.migrateLegacyVersions(), deadline));
+  ctx.waitUntil(drain(() => store.purgeExpiredDocuments(), deadline));
+  ctx.waitUntil(drain((cursor) => store.sweepReleasedBlobs(100, cursor), deadline));
+  ctx.waitUntil(
+    drain(
+      () => store.migrateLegacyOwners(async (ownerToken) => (await users.claimLegacyToken(ownerToken)).userId),
+      deadline
+    )
+  );
+}
+
+export { DocumentStateObject, RateLimitObject } from "./durable";
+
+export default {
+  fetch: workerApp.fetch,
+  scheduled,
+};
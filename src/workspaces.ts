@@ -0,0 +1,163 @@
+import { nanoid } from "nanoid";
+import { createStorageBackend } from "./backend";
+import type { StorageBackend } from "./backend";
+import type { Env } from "./router";
+import type { WorkspaceRecord, WorkspaceRole, WorkspaceSummary } from "./types";
+
+const WORKSPACE_KEY_PREFIX = "workspace:";
+const MEMBERSHIP_KEY_PREFIX = "wsmember:";
+const MAX_MEMBERS = 100;
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["viewer", "editor", "admin"];
+
+function workspaceKey(workspaceId: string): string {
+  return `${WORKSPACE_KEY_PREFIX}${workspaceId}`;
+}
+
+function membershipPrefix(userId: string): string {
+  return `${MEMBERSHIP_KEY_PREFIX}${userId}:`;
+}
+
+function membershipKey(userId: string, workspaceId: string): string {
+  return `${membershipPrefix(userId)}${workspaceId}`;
+}
+
+/** Whether `role` grants at least the permissions of `required`. */
+export function hasRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+  return Boolean(role) && WORKSPACE_ROLES.indexOf(role!) >= WORKSPACE_ROLES.indexOf(required);
+}
+
+export function createWorkspaceStore(env: Env): WorkspaceStore {
+  return new WorkspaceStore(createStorageBackend(env));
+}
+
+export class WorkspaceStore {
+  constructor(private backend: StorageBackend) {}
+
+  async createWorkspace(userId: string, name: string): Promise<WorkspaceRecord> {
+    const now = new Date().toISOString();
+    const workspace: WorkspaceRecord = {
+      id: nanoid(12),
+      name: name.trim(),
+      createdAt: now,
+      members: [{ userId, role: "admin", addedAt: now }],
+    };
+    await Promise.all([
+      this.putWorkspace(workspace),
+      this.backend.put(membershipKey(userId, workspace.id), "admin"),
+    ]);
+    return workspace;
+  }
+
+  async getWorkspace(workspaceId: string): Promise<WorkspaceRecord | null> {
+    return this.backend.getJson<WorkspaceRecord>(workspaceKey(workspaceId));
+  }
+
+  async roleOf(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const role = await this.backend.get(membershipKey(userId, workspaceId));
+    return role as WorkspaceRole | null;
+  }
+
+  async listWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+    const workspaces: WorkspaceSummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.backend.list({ prefix: membershipPrefix(userId), cursor });
+      const records = await Promise.all(
+        page.keys.map((key) => this.getWorkspace(key.slice(membershipPrefix(userId).length)))
+      );
+      for (const workspace of records) {
+        const member = workspace?.members.find((candidate) => candidate.userId === userId);
+        if (workspace && member) {
+          workspaces.push({ id: workspace.id, name: workspace.name, role: member.role });
+        }
+      }
+      cursor = page.cursor;
+    } while (cursor);
+    return workspaces.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async renameWorkspace(workspaceId: string, actorId: string, name: string): Promise<WorkspaceRecord> {
+    return this.withAdmin(workspaceId, actorId, async (workspace) => {
+      workspace.name = name.trim();
+      await this.putWorkspace(workspace);
+      return workspace;
+    });
+  }
+
+  /** Adds a member or changes their role. Only admins may do this. */
+  async setMember(
+    workspaceId: string,
+    actorId: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceRecord> {
+    return this.withAdmin(workspaceId, actorId, async (workspace) => {
+      const existing = workspace.members.find((member) => member.userId === userId);
+      if (existing) {
+        if (existing.role === "admin" && role !== "admin") this.assertOtherAdmin(workspace, userId);
+        existing.role = role;
+      } else {
+        if (workspace.members.length >= MAX_MEMBERS) throw new Error("TOO_MANY_MEMBERS");
+        workspace.members.push({ userId, role, addedAt: new Date().toISOString() });
+      }
+      await Promise.all([
+        this.putWorkspace(workspace),
+        this.backend.put(membershipKey(userId, workspaceId), role),
+      ]);
+      return workspace;
+    });
+  }
+
+  /** Removes a member. Admins may remove anyone; everyone else may only leave. */
+  async removeMember(workspaceId: string, actorId: string, userId: string): Promise<WorkspaceRecord> {
+    return this.withWorkspace(workspaceId, async (workspace) => {
+      const actor = workspace.members.find((member) => member.userId === actorId);
+      if (!actor) throw new Error("NOT_FOUND");
+      if (actorId !== userId && actor.role !== "admin") throw new Error("FORBIDDEN");
+      const member = workspace.members.find((candidate) => candidate.userId === userId);
+      if (!member) throw new Error("MEMBER_NOT_FOUND");
+      if (member.role === "admin") this.assertOtherAdmin(workspace, userId);
+      workspace.members = workspace.members.filter((candidate) => candidate.userId !== userId);
+      await Promise.all([
+        this.putWorkspace(workspace),
+        this.backend.delete(membershipKey(userId, workspaceId)),
+      ]);
+      return workspace;
+    });
+  }
+
+  private assertOtherAdmin(workspace: WorkspaceRecord, userId: string) {
+    if (!workspace.members.some((member) => member.role === "admin" && member.userId !== userId)) {
+      throw new Error("LAST_ADMIN");
+    }
+  }
+
+  private async withAdmin<T>(
+    workspaceId: string,
+    actorId: string,
+    fn: (workspace: WorkspaceRecord) => Promise<T>
+  ): Promise<T> {
+    return this.withWorkspace(workspaceId, async (workspace) => {
+      const actor = workspace.members.find((member) => member.userId === actorId);
+      if (!actor) throw new Error("NOT_FOUND");
+      if (actor.role !== "admin") throw new Error("FORBIDDEN");
+      return fn(workspace);
+    });
+  }
+
+  private async withWorkspace<T>(
+    workspaceId: string,
+    fn: (workspace: WorkspaceRecord) => Promise<T>
+  ): Promise<T> {
+    return this.backend.withDocumentLock(workspaceKey(workspaceId), async () => {
+      const workspace = await this.getWorkspace(workspaceId);
+      if (!workspace) throw new Error("NOT_FOUND");
+      return fn(workspace);
+    });
+  }
+
+  private async putWorkspace(workspace: WorkspaceRecord) {
+    await this.backend.put(workspaceKey(workspace.id), JSON.stringify(workspace));
+  }
+}